@@ -1,35 +1,116 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { JarvisService, VoiceStatus } from './services/jarvisService';
+import { JarvisService, LiveSessionHandle, VoiceStatus } from './services/jarvisService';
 import { AudioVisualizer } from './components/AudioVisualizer';
 import { ThinkingWidget } from './components/ThinkingWidget';
+import { ChatPanel } from './components/ChatPanel';
+import { VisionPreview } from './components/VisionPreview';
+import { ThinkPanel } from './components/ThinkPanel';
+import { CitationsPanel } from './components/CitationsPanel';
+import { ConversationLog } from './components/ConversationLog';
+import { SettingsPanel } from './components/SettingsPanel';
+import { LockScreen } from './components/LockScreen';
+import { ConfirmDialog } from './components/ConfirmDialog';
+import { AuditTrail } from './components/AuditTrail';
+import { InputGateIndicator } from './components/InputGateIndicator';
+import { ImageGalleryPanel } from './components/ImageGalleryPanel';
+import { MemoryPanel } from './components/MemoryPanel';
+import { ReminderPanel } from './components/ReminderPanel';
+import { MediaPlayerPanel } from './components/MediaPlayerPanel';
+import { ScreenSharePreview } from './components/ScreenSharePreview';
+import { AttachmentChips } from './components/AttachmentChips';
+import { InterpreterCaptions } from './components/InterpreterCaptions';
+import { CommandPalette } from './components/CommandPalette';
+import { DiagnosticsConsole } from './components/DiagnosticsConsole';
+import { AppMode, Attachment, Message, VisualizerStyle } from './types';
+import { toolRegistry, ToolContext } from './services/tools';
+import { createPlaybackEngine, PlaybackEngine } from './services/playbackEngine';
+import { ConversationStore } from './services/conversationStore';
+import { Settings, SettingsStore } from './services/settings';
+import { LockService } from './services/lockService';
+import { matchVoiceConfirmation } from './services/toolPolicy';
+import { InputGateMode } from './services/inputGate';
+import { GalleryImage, toDataUrl } from './services/imageGallery';
+import { FiredReminder, Scheduler, playChime, showReminderNotification } from './services/scheduler';
+import { ATTACHMENT_ACCEPT, liveContextParts, readAttachment } from './services/attachments';
+import { applyCaption, CaptionLine } from './services/captions';
+import { CommandHistory, HotkeyStore, comboFromEvent, isPaletteShortcut, isTypingTarget } from './services/commands';
+import { Diagnostics } from './services/diagnostics';
+import { requestScreenStream } from './services/videoUtils';
+
+type SidePanel = 'log' | 'settings' | 'audit' | 'gallery' | 'memory' | 'diagnostics';
+
+// Unanswered tool confirmations count as a refusal
+const CONFIRMATION_TIMEOUT_MS = 30000;
+
+// Earlier text-chat messages sent as context with each new one
+const CHAT_HISTORY_LIMIT = 20;
 
 const App: React.FC = () => {
+  const [mode, setMode] = useState<AppMode>(AppMode.LIVE);
+  const [isScreenShared, setIsScreenShared] = useState(false);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  // Files shared with the voice session; re-sent whenever a new uplink starts
+  const [contextAttachments, setContextAttachments] = useState<Attachment[]>([]);
+  const [captions, setCaptions] = useState<CaptionLine[]>([]);
+  // Set when a mode switch needs the uplink rebuilt with different instructions
+  const [restartPending, setRestartPending] = useState(false);
   const [isLiveConnected, setIsLiveConnected] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
+  const [gateMode, setGateMode] = useState<InputGateMode>('always');
+  const [isGateOpen, setIsGateOpen] = useState(false);
   const [voiceStatus, setVoiceStatus] = useState<VoiceStatus>('idle');
   const [transcript, setTranscript] = useState<{role: 'user' | 'model', text: string} | null>(null);
-  const [audioQueue, setAudioQueue] = useState<AudioBuffer[]>([]);
-  const [isPlayingAudio, setIsPlayingAudio] = useState(false);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   
   // New States for Features
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
-  const [isLocked, setIsLocked] = useState(false);
+  const [generatedImage, setGeneratedImage] = useState<GalleryImage | null>(null);
+  const [galleryFocusId, setGalleryFocusId] = useState<string | null>(null);
+  const [galleryRevision, setGalleryRevision] = useState(0);
+  const [isLocked, setIsLocked] = useState(() => LockService.isLocked());
   const [lastAction, setLastAction] = useState<string | null>(null);
+  const [firedReminders, setFiredReminders] = useState<FiredReminder[]>([]);
+  const [pendingConfirmation, setPendingConfirmation] = useState<{ tool: string; summary: string } | null>(null);
   const [blockedUrl, setBlockedUrl] = useState<string | null>(null);
+  const [useSearchGrounding, setUseSearchGrounding] = useState(false);
+  const [visualizerStyle, setVisualizerStyle] = useState<VisualizerStyle>('waveform');
+  const [inputAnalyser, setInputAnalyser] = useState<AnalyserNode | null>(null);
+  const [outputAnalyser, setOutputAnalyser] = useState<AnalyserNode | null>(null);
+  const [citations, setCitations] = useState<Array<{ title: string; uri: string }>>([]);
+
+  // Text Chat (AppMode.NORMAL)
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [isChatBusy, setIsChatBusy] = useState(false);
+  // Only one side panel is shown at a time
+  const [sidePanel, setSidePanel] = useState<SidePanel | null>(null);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+
+  // Profiles (persona, language, voice, models)
+  const [settings, setSettings] = useState<Settings>(() => SettingsStore.load());
+  // Bumped when settings stored outside React (lock preferences) change
+  const [settingsRevision, setSettingsRevision] = useState(0);
+
+  // Deep Reasoning (AppMode.THINK)
+  const [thinkThoughts, setThinkThoughts] = useState<string | null>(null);
+  const [thinkAnswer, setThinkAnswer] = useState<string | null>(null);
+  const [isThinkBusy, setIsThinkBusy] = useState(false);
+  const [thinkingBudget, setThinkingBudget] = useState(8192);
+  const [speakAnswers, setSpeakAnswers] = useState(true);
 
   // Refs
   const audioContextRef = useRef<AudioContext | null>(null);
-  const liveSessionRef = useRef<{ disconnect: () => Promise<void> } | null>(null);
+  const liveSessionRef = useRef<LiveSessionHandle | null>(null);
   const scrollIntervalRef = useRef<number | null>(null);
-  const currentAudioSourceRef = useRef<AudioBufferSourceNode | null>(null);
-
-  // Audio Playback Queue Worker
-  useEffect(() => {
-    if (audioQueue.length > 0 && !isPlayingAudio) {
-      playNextAudio();
-    }
-  }, [audioQueue, isPlayingAudio]);
+  const playbackRef = useRef<PlaybackEngine | null>(null);
+  const micMeterSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  const isLockedRef = useRef(isLocked);
+  const pendingCitationsRef = useRef<Array<{ title: string; uri: string }> | undefined>(undefined);
+  const confirmResolverRef = useRef<((approved: boolean) => void) | null>(null);
+  const contextAttachmentsRef = useRef<Attachment[]>([]);
+  const contextInputRef = useRef<HTMLInputElement>(null);
+  // Typed chat turns of this visit; the persisted log also holds voice transcripts and older sessions
+  const chatTurnsRef = useRef<Message[]>([]);
 
   // Interruption Handling
   useEffect(() => {
@@ -38,6 +119,171 @@ const App: React.FC = () => {
     }
   }, [voiceStatus]);
 
+  // Without a passcode the lock screen could not be unlocked safely; send the user to set one
+  const lockNow = () => {
+    if (!LockService.hasCredential()) {
+      setSidePanel('settings');
+      setLastAction("SET A PASSCODE TO LOCK");
+      return false;
+    }
+    isLockedRef.current = true;
+    LockService.setLocked(true);
+    setIsLocked(true);
+    setTranscript(null);
+    setCitations([]);
+    setSidePanel(null);
+    setIsPaletteOpen(false);
+    // Screen capture never continues behind the lock screen
+    setMode(m => m === AppMode.SCREEN ? AppMode.LIVE : m);
+    resolveConfirmation(false);
+    return true;
+  };
+
+  // The share picker needs the click's user activation, so it opens here rather than when the preview mounts
+  const selectMode = (m: AppMode) => {
+    if (m !== AppMode.SCREEN || mode === AppMode.SCREEN) {
+      setMode(m);
+      return;
+    }
+    requestScreenStream()
+      .then(stream => {
+        // Locked while the picker was open
+        if (isLockedRef.current) {
+          stream.getTracks().forEach(t => t.stop());
+          return;
+        }
+        setScreenStream(stream);
+        setMode(AppMode.SCREEN);
+      })
+      .catch(err => {
+        // Closing the picker is a choice, not a failure
+        if (err.name !== 'NotAllowedError' && err.name !== 'AbortError') setErrorMsg(categorizeError(err));
+      });
+  };
+
+  // Leaving SCREEN mode (STOP, another mode, locking, the browser's own controls) ends the capture
+  useEffect(() => {
+    if (mode === AppMode.SCREEN || !screenStream) return;
+    screenStream.getTracks().forEach(t => t.stop());
+    setScreenStream(null);
+  }, [mode, screenStream]);
+
+  // Settles the pending tool confirmation (dialog button, voice reply or timeout)
+  const resolveConfirmation = (approved: boolean) => {
+    const resolve = confirmResolverRef.current;
+    if (!resolve) return;
+    confirmResolverRef.current = null;
+    setPendingConfirmation(null);
+    resolve(approved);
+  };
+
+  const togglePanel = (panel: SidePanel) => setSidePanel(prev => prev === panel ? null : panel);
+
+  const updateSettings = (next: Settings) => {
+    setSettings(next);
+    SettingsStore.save(next);
+  };
+
+  // Fire saved timers and reminders, including any that came due while the page was closed
+  useEffect(() => {
+    Scheduler.start((reminder) => {
+      playChime();
+      showReminderNotification(reminder);
+      setFiredReminders(prev => [...prev, reminder]);
+      logMessage({ role: 'system', content: `${reminder.kind === 'timer' ? 'Timer' : 'Reminder'}: ${reminder.message}` });
+      // Spoken announcement when a voice session is up and the terminal is unlocked
+      if (!isLockedRef.current) {
+        liveSessionRef.current?.sendText(`[${reminder.kind.toUpperCase()}] ${reminder.message}${reminder.missed ? ' (came due while the dashboard was closed)' : ''}`);
+      }
+    });
+    return () => Scheduler.stop();
+  }, []);
+
+  // Restore the persisted conversation log
+  useEffect(() => {
+    ConversationStore.loadAll().then(saved => {
+      if (saved.length) setMessages(prev => [...saved, ...prev]);
+    });
+  }, []);
+
+  // Tool handlers run from long-lived session callbacks; give them the live lock state
+  useEffect(() => {
+    isLockedRef.current = isLocked;
+  }, [isLocked]);
+
+  // Auto-lock after a period without keyboard, pointer or voice activity
+  useEffect(() => {
+    const idleMinutes = LockService.getIdleMinutes();
+    if (isLocked || idleMinutes <= 0 || !LockService.hasCredential()) return;
+
+    let timer = window.setTimeout(lockNow, idleMinutes * 60000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(lockNow, idleMinutes * 60000);
+    };
+    const events = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'];
+    events.forEach(ev => window.addEventListener(ev, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      events.forEach(ev => window.removeEventListener(ev, reset));
+    };
+  }, [isLocked, voiceStatus, settingsRevision]);
+
+  // Push-to-talk hotkey; typing in a text field never keys the mic
+  useEffect(() => {
+    if (!isLiveConnected || gateMode !== 'ptt' || isLocked) return;
+    const pttKey = settings.input.pttKey;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== pttKey || isTypingTarget(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) liveSessionRef.current?.setTalking(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === pttKey) liveSessionRef.current?.setTalking(false);
+    };
+    const release = () => liveSessionRef.current?.setTalking(false);
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', release);
+    return () => {
+      release();
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', release);
+    };
+  }, [isLiveConnected, gateMode, isLocked, settings.input.pttKey]);
+
+  // Speaker choice applies to a running uplink straight away
+  useEffect(() => {
+    playbackRef.current?.setOutputDevice(settings.devices.outputId)
+      .catch(err => console.warn("Selected speaker unavailable, using the default", err));
+  }, [settings.devices.outputId]);
+
+  // Lets getSystemStatus and the diagnostics console report the uplink's audio contexts
+  useEffect(() => Diagnostics.attach(() => ({ capture: audioContextRef.current, playback: playbackRef.current?.context })), []);
+
+  // Ctrl/Cmd+K toggles the command palette; bound hotkeys run their tool directly
+  useEffect(() => {
+    if (isLocked) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isPaletteShortcut(e)) {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+        return;
+      }
+      if (isPaletteOpen || e.repeat || isTypingTarget(e.target)) return;
+      const combo = comboFromEvent(e);
+      const binding = combo ? HotkeyStore.find(combo) : undefined;
+      if (!binding) return;
+      e.preventDefault();
+      handleToolCall(binding.tool, binding.args).then(result => {
+        if (result?.error) setLastAction(`${binding.combo}: ${result.error.code}`);
+      });
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [isLocked, isPaletteOpen]);
+
   // Clear action status after delay
   useEffect(() => {
     if (lastAction && lastAction !== "POPUP BLOCKED") {
@@ -47,36 +293,7 @@ const App: React.FC = () => {
   }, [lastAction]);
 
   const stopAudioPlayback = () => {
-    setAudioQueue([]); // Clear future queue
-    setIsPlayingAudio(false);
-    
-    if (currentAudioSourceRef.current) {
-        try {
-            currentAudioSourceRef.current.onended = null;
-            currentAudioSourceRef.current.stop();
-        } catch (e) { /* ignore */ }
-        currentAudioSourceRef.current = null;
-    }
-  };
-
-  const testAudio = () => {
-      // Diagnostic sound to verify speakers
-      const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
-      const osc = ctx.createOscillator();
-      const gain = ctx.createGain();
-      
-      osc.connect(gain);
-      gain.connect(ctx.destination);
-      
-      osc.frequency.value = 440; // A4
-      osc.type = 'sine';
-      
-      gain.gain.setValueAtTime(0.1, ctx.currentTime);
-      gain.gain.exponentialRampToValueAtTime(0.00001, ctx.currentTime + 0.5);
-      
-      osc.start();
-      osc.stop(ctx.currentTime + 0.5);
-      setLastAction("AUDIO CHECK: OK");
+    playbackRef.current?.flush();
   };
 
   // --- Helper Functions ---
@@ -136,6 +353,7 @@ const App: React.FC = () => {
         // Try high-quality constraints first with aggressive noise suppression
         return await navigator.mediaDevices.getUserMedia({ 
             audio: {
+                ...(settings.devices.inputId ? { deviceId: { exact: settings.devices.inputId } } : {}),
                 echoCancellation: { ideal: true },
                 autoGainControl: { ideal: true },
                 noiseSuppression: { ideal: true }, // Maximize noise suppression
@@ -145,7 +363,7 @@ const App: React.FC = () => {
         });
     } catch (err: any) {
         console.warn("High-quality audio constraints failed, trying fallback...", err);
-        // Fallback for constraint issues or if specific features aren't supported
+        // Fallback for constraint issues (including an unplugged input) or unsupported features
         if (err.name === 'OverconstrainedError' || err.name === 'ConstraintNotSatisfiedError') {
              return await navigator.mediaDevices.getUserMedia({ audio: true });
         }
@@ -153,25 +371,6 @@ const App: React.FC = () => {
     }
   };
 
-  const simulateKey = (key: string, code: string) => {
-    let keyCode = 0;
-    if (code === 'Space') keyCode = 32;
-    if (code === 'KeyK') keyCode = 75;
-    if (code === 'KeyJ') keyCode = 74;
-    if (code === 'KeyL') keyCode = 76;
-    if (code === 'KeyF') keyCode = 70;
-    if (code === 'KeyM') keyCode = 77;
-
-    const options = {
-        key, code, keyCode, which: keyCode,
-        bubbles: true, cancelable: true, view: window
-    };
-    
-    document.dispatchEvent(new KeyboardEvent('keydown', options));
-    document.dispatchEvent(new KeyboardEvent('keypress', options));
-    document.dispatchEvent(new KeyboardEvent('keyup', options));
-  };
-
   const handleScroll = (action: 'up' | 'down' | 'auto' | 'stop') => {
     if (scrollIntervalRef.current) {
         window.clearInterval(scrollIntervalRef.current);
@@ -194,33 +393,141 @@ const App: React.FC = () => {
     }
   };
 
-  const playNextAudio = async () => {
-    if (audioQueue.length === 0) return;
-    setIsPlayingAudio(true);
-    
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  // UI capabilities lent to the tool registry handlers
+  const toolContext: ToolContext = {
+    isLocked: () => isLockedRef.current,
+    notify: (label) => setLastAction(label),
+    openUrl: (url) => {
+      const win = window.open(url, '_blank');
+      if (!win) {
+        setBlockedUrl(url);
+        setLastAction("POPUP BLOCKED");
+        return false;
+      }
+      return true;
+    },
+    scroll: (action) => handleScroll(action),
+    lock: () => lockNow(),
+    generateImage: (prompt, reference) => JarvisService.generateImage(prompt, reference),
+    showImage: (image) => {
+      setGeneratedImage(image);
+      setGalleryFocusId(image.id);
+      setGalleryRevision(r => r + 1);
+    },
+    requestConfirmation: (request) => new Promise<boolean>(resolve => {
+      // A newer request supersedes one still waiting
+      resolveConfirmation(false);
+      const timer = window.setTimeout(() => resolveConfirmation(false), CONFIRMATION_TIMEOUT_MS);
+      confirmResolverRef.current = (approved) => {
+        window.clearTimeout(timer);
+        resolve(approved);
+      };
+      setPendingConfirmation(request);
+      setLastAction("AWAITING CONFIRMATION");
+    }),
+  };
+
+  // Every turn goes through here so the log panel and IndexedDB stay in sync
+  const logMessage = (entry: Omit<Message, 'id' | 'timestamp'>) => {
+    const message: Message = { ...entry, id: crypto.randomUUID(), timestamp: new Date() };
+    setMessages(prev => [...prev, message]);
+    ConversationStore.append(message);
+    return message;
+  };
+
+  // Executes tools requested by the model (live session and text chat), the command palette and hotkeys
+  const handleToolCall = async (name: string, args: any) => {
+    const result = await toolRegistry.execute(name, args, toolContext);
+    logMessage({ role: 'system', content: `Tool: ${name}`, toolCall: { name, args, result } });
+    if (!result?.error) CommandHistory.add({ tool: name, args: args ?? {} });
+    return result;
+  };
+
+  const sendChatMessage = async (text: string, attachments: Attachment[] = []) => {
+    if (isChatBusy) return;
+    const history = chatTurnsRef.current.slice(-CHAT_HISTORY_LIMIT);
+    const question = logMessage({ role: 'user', content: text, attachments: attachments.length ? attachments : undefined });
+    setIsChatBusy(true);
+    setStreamingText('');
+
+    const response = await JarvisService.sendMessage(
+      history,
+      text,
+      (partial) => setStreamingText(partial),
+      handleToolCall,
+      { useSearchGrounding, attachments }
+    );
+
+    const answer = logMessage({ role: 'model', content: response.text, groundingUrls: response.groundingUrls });
+    chatTurnsRef.current = [...chatTurnsRef.current, question, answer].slice(-CHAT_HISTORY_LIMIT);
+    setStreamingText(null);
+    setIsChatBusy(false);
+  };
+
+  // Files dropped or picked in the voice HUD become context for the live session
+  const shareWithVoice = async (files: FileList | null) => {
+    if (!files?.length) return;
+    const shared: Attachment[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        const attachment = await readAttachment(file);
+        // The live API takes no PDFs, so it gets their text instead
+        if (attachment.mimeType === 'application/pdf') {
+          setLastAction("READING DOCUMENT...");
+          attachment.text = (await JarvisService.extractDocumentText(attachment)) ?? undefined;
+        }
+        shared.push(attachment);
+      } catch (err: any) {
+        setLastAction(`ATTACH ERR: ${err.message}`.toUpperCase());
+      }
     }
-    const ctx = audioContextRef.current;
-    
-    if (ctx.state === 'suspended') {
-      await ctx.resume();
+    if (shared.length === 0) return;
+    logMessage({ role: 'user', content: `Shared ${shared.map(a => a.name).join(', ')}`, attachments: shared });
+    contextAttachmentsRef.current = [...contextAttachmentsRef.current, ...shared];
+    setContextAttachments(contextAttachmentsRef.current);
+    try {
+      liveSessionRef.current?.sendContext(liveContextParts(shared));
+    } catch (err: any) {
+      setLastAction(`CONTEXT NOT SHARED: ${err.message}`.toUpperCase());
+      return;
     }
-    
-    const buffer = audioQueue[0];
-    const source = ctx.createBufferSource();
-    source.buffer = buffer;
-    source.connect(ctx.destination);
-    
-    currentAudioSourceRef.current = source;
+    setLastAction(liveSessionRef.current ? "CONTEXT SHARED" : "CONTEXT QUEUED FOR UPLINK");
+  };
 
-    source.onended = () => {
-      currentAudioSourceRef.current = null;
-      setAudioQueue(prev => prev.slice(1));
-      setIsPlayingAudio(false);
-    };
-    
-    source.start();
+  const removeContextAttachment = (id: string) => {
+    contextAttachmentsRef.current = contextAttachmentsRef.current.filter(a => a.id !== id);
+    setContextAttachments(contextAttachmentsRef.current);
+  };
+
+  const speakText = (text: string) => {
+    if (!('speechSynthesis' in window)) return;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-IN';
+    window.speechSynthesis.speak(utterance);
+  };
+
+  const askDeepQuestion = async (question: string) => {
+    if (isThinkBusy) return;
+    setIsThinkBusy(true);
+    setThinkThoughts('');
+    setThinkAnswer(null);
+    logMessage({ role: 'user', content: question });
+
+    const result = await JarvisService.think(
+      question,
+      thinkingBudget,
+      (thoughts) => setThinkThoughts(thoughts),
+      (text) => setThinkAnswer(text)
+    );
+
+    setThinkAnswer(result.text);
+    if (result.thoughts) {
+      logMessage({ role: 'model', content: result.thoughts, isThinking: true });
+    }
+    logMessage({ role: 'model', content: result.text });
+    setIsThinkBusy(false);
+    if (speakAnswers) speakText(result.text);
   };
 
   const startJarvis = async () => {
@@ -232,7 +539,8 @@ const App: React.FC = () => {
     setErrorMsg(null);
     setGeneratedImage(null);
     setBlockedUrl(null);
-    setAudioQueue([]);
+    setCitations([]);
+    stopAudioPlayback();
     
     try {
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
@@ -246,116 +554,117 @@ const App: React.FC = () => {
       if (audioContextRef.current.state === 'suspended') {
         await audioContextRef.current.resume();
       }
+      // Model speech plays through its own 24kHz engine, unlocked by the same gesture
+      if (!playbackRef.current) {
+        playbackRef.current = createPlaybackEngine({ sampleRate: 24000 });
+      }
+      await playbackRef.current.resume();
+      await playbackRef.current.setOutputDevice(settings.devices.outputId)
+        .catch(err => console.warn("Selected speaker unavailable, using the default", err));
 
       const stream = await getMediaStream();
 
+      // Mic level tap for the visualizer (separate from the capture pipeline)
+      const micSource = audioContextRef.current.createMediaStreamSource(stream);
+      const micAnalyser = audioContextRef.current.createAnalyser();
+      micAnalyser.fftSize = 1024;
+      micAnalyser.smoothingTimeConstant = 0.6;
+      micSource.connect(micAnalyser);
+      micMeterSourceRef.current = micSource;
+      setInputAnalyser(micAnalyser);
+      setOutputAnalyser(playbackRef.current.analyser);
+
+      setGateMode(settings.input.mode);
+      setIsGateOpen(settings.input.mode === 'always');
+      const interpreter = mode === AppMode.INTERPRET ? settings.interpreter : undefined;
       liveSessionRef.current = await JarvisService.connectLive(
         audioContextRef.current,
         stream,
-        (audioBuffer) => setAudioQueue(prev => [...prev, audioBuffer]),
-        (role, text) => setTranscript({ role, text }),
-        (status) => setVoiceStatus(status),
-        async (name, args) => {
-            // SAFE ARGUMENT EXTRACTION
-            const safeArg = (val: any) => (val && typeof val === 'string') ? val : '';
-
-            // TOOL HANDLERS
-            if (name === 'generateImage') {
-                const prompt = safeArg(args.prompt);
-                if (!prompt) return { error: "Missing prompt" };
-                
-                setLastAction("GENERATING IMAGE...");
-                JarvisService.generateImage(prompt).then(img => {
-                    if (img) {
-                        setGeneratedImage(img);
-                        setLastAction("IMAGE RENDERED");
-                    } else {
-                        setLastAction("ERR: IMAGE GEN FAILED");
-                    }
-                });
-                return { status: "Generating image displayed to user" };
-            }
-            if (name === 'lockSystem') {
-                setIsLocked(true);
-                return { status: "System locked" };
-            }
-            if (name === 'scrollPage') {
-                const action = safeArg(args.action);
-                if (!['up', 'down', 'auto', 'stop'].includes(action)) return { error: "Invalid action" };
-                handleScroll(action as any);
-                setLastAction(`SCROLL: ${action.toUpperCase()}`);
-                return { status: "Scrolled" };
-            }
-            if (name === 'controlMedia') {
-                const action = safeArg(args.action);
-                simulateKey('k', 'KeyK');
-                setLastAction(`MEDIA: ${action.toUpperCase() || 'TOGGLE'}`);
-                return { status: "Media toggle executed" };
-            }
-            
-            // URL Handlers (Search, Open, Play)
-            let url = '';
-            let actionLabel = '';
-            const query = safeArg(args.query);
-            
-            if (name === 'performGoogleSearch') { // Renamed tool
-                url = `https://www.google.com/search?q=${encodeURIComponent(query)}`;
-                actionLabel = "SEARCHING";
-            } else if (name === 'playMedia') {
-                const type = safeArg(args.type) || 'video';
-                const sq = type === 'short' ? `${query} shorts` : query;
-                url = `https://www.youtube.com/results?search_query=${encodeURIComponent(sq)}`;
-                actionLabel = "PLAYING";
-            } else if (name === 'openWebsite') {
-                url = safeArg(args.url);
-                actionLabel = "OPENING";
-            }
-
-            if (url) {
-                setLastAction(`${actionLabel}: ${query || 'URL'}`);
-                const win = window.open(url, '_blank');
-                if (!win) {
-                    setBlockedUrl(url);
-                    setLastAction("POPUP BLOCKED");
-                    // Critical: Inform the model that the action failed so it can respond verbally
-                    return { error: "Browser blocked the popup window. User has been alerted manually." };
-                }
-                return { status: "Opened successfully" };
-            }
-            
-            // Fallback for recognized tools with missing required args
-            if (['performGoogleSearch', 'playMedia', 'openWebsite'].includes(name)) {
-                setLastAction("CMD ERR: MISSING PARAMS");
-                return { error: "Missing required parameters (url or query)" };
+        (audioBuffer) => playbackRef.current?.enqueue(audioBuffer),
+        (role, text) => {
+            // Nothing heard behind the lock screen is shown or kept
+            if (isLockedRef.current) return;
+            if (interpreter) setCaptions(prev => applyCaption(prev, role, text, true));
+            if (role === 'user') {
+                logMessage({ role, content: text });
+                setCitations([]);
+                return;
             }
-
-            return { error: "Unknown tool" };
+            logMessage({ role, content: text, groundingUrls: pendingCitationsRef.current });
+            pendingCitationsRef.current = undefined;
+            setTranscript({ role, text });
         },
+        (status) => setVoiceStatus(status),
+        handleToolCall,
         () => {
            setIsLiveConnected(false);
+           setIsReconnecting(false);
            setVoiceStatus('idle');
            setIsConnecting(false);
            stopAudioPlayback();
+           releaseMeters();
         },
         (err) => {
            console.error("Live Session Error:", err);
            setErrorMsg(categorizeError(err));
            setIsLiveConnected(false);
+           setIsReconnecting(false);
            setIsConnecting(false);
            stopAudioPlayback();
+           releaseMeters();
+        },
+        {
+          useSearchGrounding,
+          captureChunkMs: settings.input.captureChunkMs,
+          onGrounding: (urls) => {
+            pendingCitationsRef.current = urls;
+            setCitations(urls);
+          },
+          onInterrupted: () => stopAudioPlayback(),
+          inputGate: {
+            mode: settings.input.mode,
+            sensitivityDb: settings.input.sensitivityDb,
+            hangoverMs: settings.input.hangoverMs,
+          },
+          onGateChange: setIsGateOpen,
+          interpreter,
+          onModelSpeech: interpreter ? (partialText) => { if (!isLockedRef.current) setCaptions(prev => applyCaption(prev, 'model', partialText)); } : undefined,
+          onUserSpeech: (partialText) => {
+            if (isLockedRef.current) return;
+            if (interpreter) setCaptions(prev => applyCaption(prev, 'user', partialText));
+            if (!confirmResolverRef.current) return;
+            const approved = matchVoiceConfirmation(partialText);
+            if (approved !== null) resolveConfirmation(approved);
+          },
+          onConnectionStateChange: (state) => {
+            setIsReconnecting(state === 'reconnecting');
+            if (state === 'reconnecting') stopAudioPlayback();
+          }
         }
       );
 
       setIsLiveConnected(true);
+      // Files shared earlier carry over to the new uplink
+      if (contextAttachmentsRef.current.length) {
+        liveSessionRef.current.sendContext(liveContextParts(contextAttachmentsRef.current));
+      }
 
     } catch (err: any) {
       console.error("Init Error:", err);
       setErrorMsg(categorizeError(err));
+      releaseMeters();
       setIsLiveConnected(false);
       setIsConnecting(false);
     }
   };
 
+  const releaseMeters = () => {
+    micMeterSourceRef.current?.disconnect();
+    micMeterSourceRef.current = null;
+    setInputAnalyser(null);
+    setOutputAnalyser(null);
+  };
+
   const stopJarvis = async () => {
     if (liveSessionRef.current) {
       await liveSessionRef.current.disconnect();
@@ -366,7 +675,9 @@ const App: React.FC = () => {
         scrollIntervalRef.current = null;
     }
     stopAudioPlayback();
+    releaseMeters();
     setIsLiveConnected(false);
+    setIsReconnecting(false);
     setVoiceStatus('idle');
     setIsConnecting(false);
   };
@@ -376,6 +687,7 @@ const App: React.FC = () => {
     if (errorMsg) return "SYSTEM ERROR";
     if (isConnecting) return "ESTABLISHING UPLINK...";
     if (!isLiveConnected) return "SYSTEM STANDBY";
+    if (isReconnecting) return "UPLINK LOST // RECONNECTING...";
     if (lastAction) return lastAction;
     switch (voiceStatus) {
       case 'listening': return "LISTENING...";
@@ -385,25 +697,41 @@ const App: React.FC = () => {
     }
   };
 
+  // Interpreter and assistant sessions use different instructions, so crossing between them rebuilds the uplink
+  const isInterpreting = mode === AppMode.INTERPRET;
+  const wasInterpretingRef = useRef(isInterpreting);
+  useEffect(() => {
+    if (wasInterpretingRef.current === isInterpreting) return;
+    wasInterpretingRef.current = isInterpreting;
+    if (!liveSessionRef.current) return;
+    stopJarvis().then(() => setRestartPending(true));
+  }, [isInterpreting]);
+
+  useEffect(() => {
+    if (!restartPending || isLiveConnected || isConnecting) return;
+    setRestartPending(false);
+    startJarvis();
+  }, [restartPending, isLiveConnected, isConnecting]);
+
+  const isVoiceMode = mode === AppMode.LIVE || mode === AppMode.VISION || mode === AppMode.SCREEN;
+
   return (
-    <div className="w-screen h-screen bg-black text-jarvis-cyan font-display flex flex-col relative overflow-hidden">
+    <div
+      className="w-screen h-screen bg-black text-jarvis-cyan font-display flex flex-col relative overflow-hidden"
+      onDragOver={(e) => { if (e.dataTransfer.types.includes('Files')) e.preventDefault(); }}
+      onDrop={(e) => {
+        // The text channel handles its own drops; elsewhere files go to the voice session
+        e.preventDefault();
+        if (isVoiceMode && !isLocked) shareWithVoice(e.dataTransfer.files);
+      }}
+    >
       
       {/* --- HUD DECORATION --- */}
       <div className="absolute inset-0 bg-[linear-gradient(rgba(0,243,255,0.03)_1px,transparent_1px),linear-gradient(90deg,rgba(0,243,255,0.03)_1px,transparent_1px)] bg-[size:40px_40px] pointer-events-none"></div>
       <div className="absolute inset-0 bg-[radial-gradient(circle_at_center,transparent_50%,rgba(0,0,0,0.8)_100%)] pointer-events-none"></div>
       
       {/* --- LOCK SCREEN --- */}
-      {isLocked && (
-        <div className="absolute inset-0 z-50 bg-black flex flex-col items-center justify-center space-y-8">
-            <div className="text-red-500 text-6xl font-bold animate-pulse tracking-[0.5em]">LOCKED</div>
-            <button 
-                onClick={() => setIsLocked(false)}
-                className="px-8 py-3 bg-red-900/30 border border-red-500 text-red-500 hover:bg-red-900/50 rounded font-mono uppercase"
-            >
-                Authenticate to Unlock
-            </button>
-        </div>
-      )}
+      {isLocked && <LockScreen onUnlock={() => setIsLocked(false)} />}
 
       {/* --- POPUP BLOCKER RECOVERY --- */}
       {blockedUrl && (
@@ -420,102 +748,386 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* --- FIRED REMINDERS --- */}
+      {firedReminders.length > 0 && !isLocked && (
+        <div className="absolute top-28 left-1/2 -translate-x-1/2 z-50 space-y-2 w-full max-w-md px-4">
+            {firedReminders.map(r => (
+                <div key={r.id} className="flex items-center justify-between bg-yellow-500/10 border border-yellow-500/60 rounded-lg px-4 py-3 backdrop-blur-md shadow-[0_0_20px_rgba(234,179,8,0.3)]">
+                    <div>
+                        <div className="text-[10px] font-mono tracking-widest text-yellow-500">
+                            {r.kind === 'timer' ? 'TIMER COMPLETE' : 'REMINDER'}{r.missed ? ' // MISSED' : ''}
+                        </div>
+                        <div className="text-white">{r.message}</div>
+                    </div>
+                    <button
+                        onClick={() => setFiredReminders(prev => prev.filter(f => f.id !== r.id))}
+                        className="ml-4 text-xs font-mono tracking-widest text-yellow-400 hover:text-white"
+                    >
+                        DISMISS
+                    </button>
+                </div>
+            ))}
+        </div>
+      )}
+
       {/* --- GENERATED IMAGE --- */}
       {generatedImage && !isLocked && (
         <div className="absolute inset-0 z-40 bg-black/90 backdrop-blur-md flex flex-col items-center justify-center p-8">
             <div className="relative max-w-4xl max-h-[80vh] border-2 border-jarvis-cyan rounded-lg overflow-hidden shadow-[0_0_50px_rgba(0,243,255,0.3)]">
-                <img src={`data:image/jpeg;base64,${generatedImage}`} alt="Generated" className="object-contain w-full h-full" />
+                <img src={toDataUrl(generatedImage)} alt={generatedImage.prompt} className="object-contain w-full h-full" />
+            </div>
+            <div className="mt-3 text-sm text-gray-400 max-w-2xl text-center">{generatedImage.prompt}</div>
+            <div className="mt-6 flex space-x-3">
+                <button 
+                    onClick={() => setGeneratedImage(null)}
+                    className="px-6 py-2 border border-jarvis-cyan text-jarvis-cyan hover:bg-jarvis-cyan/20 rounded-full"
+                >
+                    CLOSE VISUALIZATION
+                </button>
+                <button
+                    onClick={() => { setGeneratedImage(null); setSidePanel('gallery'); }}
+                    className="px-6 py-2 border border-gray-600 text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan rounded-full"
+                >
+                    OPEN GALLERY
+                </button>
             </div>
-            <button 
-                onClick={() => setGeneratedImage(null)}
-                className="mt-6 px-6 py-2 border border-jarvis-cyan text-jarvis-cyan hover:bg-jarvis-cyan/20 rounded-full"
-            >
-                CLOSE VISUALIZATION
-            </button>
         </div>
       )}
 
+      {/* --- CONVERSATION LOG --- */}
+      {sidePanel === 'log' && !isLocked && (
+        <ConversationLog
+          messages={messages}
+          onClose={() => setSidePanel(null)}
+          onClear={() => {
+            ConversationStore.clear().catch(err => console.error("Failed to clear log", err));
+            setMessages([]);
+            chatTurnsRef.current = [];
+          }}
+        />
+      )}
+
+      {/* --- TOOL AUDIT TRAIL --- */}
+      {sidePanel === 'audit' && !isLocked && <AuditTrail onClose={() => setSidePanel(null)} />}
+
+      {/* --- LONG-TERM MEMORY --- */}
+      {sidePanel === 'memory' && !isLocked && <MemoryPanel onClose={() => setSidePanel(null)} />}
+
+      {/* --- IMAGE GALLERY --- */}
+      {sidePanel === 'gallery' && !isLocked && (
+        <ImageGalleryPanel
+          initialId={galleryFocusId}
+          revision={galleryRevision}
+          onEdit={(image, instruction) => handleToolCall('generateImage', { prompt: instruction, editImageId: image.id })}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {/* --- DIAGNOSTICS --- */}
+      {sidePanel === 'diagnostics' && !isLocked && (
+        <DiagnosticsConsole
+          devices={settings.devices}
+          onDevicesChange={(devices) => updateSettings({ ...settings, devices })}
+          isLive={isLiveConnected || isConnecting}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {/* --- COMMAND PALETTE --- */}
+      {isPaletteOpen && !isLocked && (
+        <CommandPalette onRun={handleToolCall} onClose={() => setIsPaletteOpen(false)} />
+      )}
+
+      {/* --- TOOL CONFIRMATION --- */}
+      {pendingConfirmation && !isLocked && (
+        <ConfirmDialog
+          tool={pendingConfirmation.tool}
+          summary={pendingConfirmation.summary}
+          onResolve={resolveConfirmation}
+        />
+      )}
+
+      {/* --- SETTINGS --- */}
+      {sidePanel === 'settings' && !isLocked && (
+        <SettingsPanel
+          settings={settings}
+          onChange={updateSettings}
+          onSecurityChange={() => setSettingsRevision(r => r + 1)}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
       {/* --- HEADER --- */}
       <header className="absolute top-0 w-full p-6 flex justify-between items-start z-10">
         <div>
           <h1 className="text-3xl font-bold tracking-[0.2em] text-white drop-shadow-[0_0_10px_rgba(255,255,255,0.5)]">JARVIS</h1>
-          <div className="text-xs text-jarvis-blue mt-1">VOICE INTERFACE PROTOCOL MK.85</div>
+          <div className="text-xs text-jarvis-blue mt-1">VOICE INTERFACE PROTOCOL MK.85 // {(settings.profiles.find(p => p.id === settings.activeProfileId) || settings.profiles[0]).name.toUpperCase()}</div>
+          <div className="flex space-x-2 mt-3">
+            {[AppMode.LIVE, AppMode.VISION, AppMode.SCREEN, AppMode.INTERPRET, AppMode.NORMAL, AppMode.THINK].map(m => (
+              <button
+                key={m}
+                onClick={() => selectMode(m)}
+                className={`px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors ${mode === m ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/10' : 'border-gray-700 text-gray-500 hover:text-jarvis-cyan'}`}
+              >
+                {m === AppMode.LIVE ? 'VOICE' : m === AppMode.NORMAL ? 'TEXT' : m}
+              </button>
+            ))}
+            <button
+              onClick={() => setUseSearchGrounding(prev => !prev)}
+              title="Applies to new chat messages and the next voice uplink"
+              className={`px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors ${useSearchGrounding ? 'border-green-400 text-green-400 bg-green-400/10' : 'border-gray-700 text-gray-500 hover:text-green-400'}`}
+            >
+              GROUNDING {useSearchGrounding ? 'ON' : 'OFF'}
+            </button>
+            <button
+              onClick={() => togglePanel('log')}
+              className={`px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors ${sidePanel === 'log' ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/10' : 'border-gray-700 text-gray-500 hover:text-jarvis-cyan'}`}
+            >
+              LOG {messages.length > 0 ? `(${messages.length})` : ''}
+            </button>
+            <button
+              onClick={() => togglePanel('settings')}
+              className={`px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors ${sidePanel === 'settings' ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/10' : 'border-gray-700 text-gray-500 hover:text-jarvis-cyan'}`}
+            >
+              SETTINGS
+            </button>
+            <button
+              onClick={() => togglePanel('audit')}
+              className={`px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors ${sidePanel === 'audit' ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/10' : 'border-gray-700 text-gray-500 hover:text-jarvis-cyan'}`}
+            >
+              AUDIT
+            </button>
+            <button
+              onClick={() => togglePanel('gallery')}
+              className={`px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors ${sidePanel === 'gallery' ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/10' : 'border-gray-700 text-gray-500 hover:text-jarvis-cyan'}`}
+            >
+              GALLERY
+            </button>
+            <button
+              onClick={() => togglePanel('memory')}
+              className={`px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors ${sidePanel === 'memory' ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/10' : 'border-gray-700 text-gray-500 hover:text-jarvis-cyan'}`}
+            >
+              MEMORY
+            </button>
+            <button
+              onClick={() => setIsPaletteOpen(true)}
+              title="Command palette (Ctrl+K)"
+              className="px-3 py-1 border rounded-full text-[10px] tracking-widest transition-colors border-gray-700 text-gray-500 hover:text-jarvis-cyan"
+            >
+              ⌘K
+            </button>
+          </div>
         </div>
         <div className="text-right">
           <div className="text-xs text-gray-400">SYS.STATUS</div>
-          <div className={`text-xl font-bold tracking-widest ${isLiveConnected ? 'text-green-400 animate-pulse' : errorMsg ? 'text-red-500 blink' : isConnecting ? 'text-yellow-400' : 'text-gray-500'}`}>
-            {isLiveConnected ? 'ONLINE' : errorMsg ? 'ERROR' : isConnecting ? 'CONNECTING' : 'OFFLINE'}
+          <div className={`text-xl font-bold tracking-widest ${isReconnecting ? 'text-yellow-400 animate-pulse' : isLiveConnected ? 'text-green-400 animate-pulse' : errorMsg ? 'text-red-500 blink' : isConnecting ? 'text-yellow-400' : 'text-gray-500'}`}>
+            {isReconnecting ? 'RECONNECTING' : isLiveConnected ? 'ONLINE' : errorMsg ? 'ERROR' : isConnecting ? 'CONNECTING' : 'OFFLINE'}
           </div>
         </div>
       </header>
 
+      {/* --- VISION FEED --- */}
+      {mode === AppMode.VISION && !isLocked && (
+        <div className="absolute top-28 right-6 z-20">
+          <VisionPreview
+            isStreaming={isLiveConnected}
+            onFrame={(frame) => liveSessionRef.current?.sendVideoFrame(frame)}
+            onError={(err) => setErrorMsg(categorizeError(err))}
+          />
+        </div>
+      )}
+
+      {/* --- SCREEN SHARE --- */}
+      {mode === AppMode.SCREEN && screenStream && !isLocked && (
+        <div className="absolute top-28 right-6 z-20">
+          <ScreenSharePreview
+            stream={screenStream}
+            isStreaming={isLiveConnected}
+            onFrame={(frame) => liveSessionRef.current?.sendVideoFrame(frame)}
+            onStop={() => setMode(AppMode.LIVE)}
+            onActiveChange={setIsScreenShared}
+          />
+        </div>
+      )}
+      {isScreenShared && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-3 px-4 py-2 rounded-full bg-red-500/15 border border-red-500 backdrop-blur-md font-mono text-xs tracking-widest">
+          <span className="text-red-400 animate-pulse">● SCREEN SHARED</span>
+          <button onClick={() => setMode(AppMode.LIVE)} className="px-2 py-0.5 border border-red-500 rounded text-red-300 hover:bg-red-500/30">
+            STOP
+          </button>
+        </div>
+      )}
+
       {/* --- MAIN VISUALIZER --- */}
       <main className="flex-1 flex flex-col items-center justify-center relative z-0">
         
-        <div className="relative w-[300px] h-[300px] md:w-[400px] md:h-[400px] flex items-center justify-center">
-            {/* Rings */}
-            <div className={`absolute inset-0 rounded-full border-2 border-dashed ${
-                errorMsg ? 'border-red-500' : 
-                (voiceStatus === 'processing' || isConnecting) ? 'border-purple-500 animate-[spin_2s_linear_infinite]' : 
-                (voiceStatus === 'listening') ? 'border-white animate-[spin_3s_linear_infinite] shadow-[0_0_15px_rgba(255,255,255,0.3)]' :
-                isLiveConnected ? 'border-jarvis-cyan animate-[spin_4s_linear_infinite]' : 
-                'border-gray-800'
-            }`}></div>
-            <div className={`absolute inset-4 rounded-full border ${errorMsg ? 'border-red-500/50' : 'border-jarvis-blue/30'}`}></div>
-
-            {/* Widget */}
-            <div className={`absolute inset-10 rounded-full overflow-hidden bg-black/50 backdrop-blur-sm border shadow-[0_0_30px_rgba(0,243,255,0.2)] ${errorMsg ? 'border-red-500 shadow-[0_0_30px_rgba(255,0,0,0.2)]' : 'border-jarvis-cyan/50'}`}>
-                {(voiceStatus === 'processing' || isConnecting) ? (
-                   <ThinkingWidget />
-                ) : (
-                   <AudioVisualizer mode={voiceStatus as 'idle' | 'listening' | 'speaking'} />
-                )}
-            </div>
+        {mode === AppMode.NORMAL ? (
+          !isLocked && <ChatPanel
+            messages={messages}
+            streamingText={streamingText}
+            isBusy={isChatBusy}
+            onSend={sendChatMessage}
+          />
+        ) : mode === AppMode.THINK ? (
+          !isLocked && <ThinkPanel
+            thoughts={thinkThoughts}
+            answer={thinkAnswer}
+            isBusy={isThinkBusy}
+            thinkingBudget={thinkingBudget}
+            speakAnswers={speakAnswers}
+            onBudgetChange={setThinkingBudget}
+            onSpeakChange={setSpeakAnswers}
+            onAsk={askDeepQuestion}
+          />
+        ) : (
+          <>
+          <div className="relative w-[300px] h-[300px] md:w-[400px] md:h-[400px] flex items-center justify-center">
+              {/* Rings */}
+              <div className={`absolute inset-0 rounded-full border-2 border-dashed ${
+                  errorMsg ? 'border-red-500' : 
+                  (voiceStatus === 'processing' || isConnecting) ? 'border-purple-500 animate-[spin_2s_linear_infinite]' : 
+                  (voiceStatus === 'listening') ? 'border-white animate-[spin_3s_linear_infinite] shadow-[0_0_15px_rgba(255,255,255,0.3)]' :
+                  isLiveConnected ? 'border-jarvis-cyan animate-[spin_4s_linear_infinite]' : 
+                  'border-gray-800'
+              }`}></div>
+              <div className={`absolute inset-4 rounded-full border ${errorMsg ? 'border-red-500/50' : 'border-jarvis-blue/30'}`}></div>
 
-            {/* Initiate Button */}
-            {!isLiveConnected && !isConnecting && (
-                <button 
-                    onClick={startJarvis}
-                    className="absolute z-20 w-32 h-32 rounded-full bg-jarvis-cyan/10 hover:bg-jarvis-cyan/20 border border-jarvis-cyan text-jarvis-cyan font-bold tracking-widest transition-all duration-300 hover:scale-110 hover:shadow-[0_0_30px_#00f3ff]"
-                >
-                    {errorMsg ? "RETRY" : "INITIATE"}
-                </button>
-            )}
-        </div>
+              {/* Widget */}
+              <div className={`absolute inset-10 rounded-full overflow-hidden bg-black/50 backdrop-blur-sm border shadow-[0_0_30px_rgba(0,243,255,0.2)] ${errorMsg ? 'border-red-500 shadow-[0_0_30px_rgba(255,0,0,0.2)]' : 'border-jarvis-cyan/50'}`}>
+                  {(voiceStatus === 'processing' || isConnecting) ? (
+                     <ThinkingWidget />
+                  ) : (
+                     <AudioVisualizer
+                        mode={voiceStatus as 'idle' | 'listening' | 'speaking'}
+                        style={visualizerStyle}
+                        inputAnalyser={inputAnalyser}
+                        outputAnalyser={outputAnalyser}
+                     />
+                  )}
+              </div>
 
-        {/* Status Text */}
-        <div className={`mt-8 tracking-[0.3em] text-sm font-mono animate-pulse ${errorMsg ? 'text-red-500' : (voiceStatus === 'processing' || isConnecting) ? 'text-purple-400' : voiceStatus === 'listening' ? 'text-white' : 'text-jarvis-blue'}`}>
-            {getStatusText()}
-        </div>
+              {/* Initiate Button */}
+              {!isLiveConnected && !isConnecting && (
+                  <button 
+                      onClick={startJarvis}
+                      className="absolute z-20 w-32 h-32 rounded-full bg-jarvis-cyan/10 hover:bg-jarvis-cyan/20 border border-jarvis-cyan text-jarvis-cyan font-bold tracking-widest transition-all duration-300 hover:scale-110 hover:shadow-[0_0_30px_#00f3ff]"
+                  >
+                      {errorMsg ? "RETRY" : "INITIATE"}
+                  </button>
+              )}
+          </div>
+
+          {/* Visualizer Style */}
+          <div className="mt-6 flex space-x-2">
+              {(['waveform', 'spectrum', 'arc'] as VisualizerStyle[]).map(v => (
+                  <button
+                      key={v}
+                      onClick={() => setVisualizerStyle(v)}
+                      className={`px-3 py-1 border rounded-full text-[10px] tracking-widest uppercase transition-colors ${visualizerStyle === v ? 'border-jarvis-cyan text-jarvis-cyan' : 'border-gray-800 text-gray-600 hover:text-jarvis-cyan'}`}
+                  >
+                      {v === 'arc' ? 'Arc Reactor' : v}
+                  </button>
+              ))}
+          </div>
+
+          {/* Status Text */}
+          <div className={`mt-8 tracking-[0.3em] text-sm font-mono animate-pulse ${errorMsg ? 'text-red-500' : (voiceStatus === 'processing' || isConnecting) ? 'text-purple-400' : voiceStatus === 'listening' ? 'text-white' : 'text-jarvis-blue'}`}>
+              {getStatusText()}
+          </div>
         
-        {/* Error Details */}
-        {errorMsg && (
-            <div className="mt-2 text-red-400 text-xs font-mono max-w-md text-center px-4 bg-red-900/20 py-2 rounded border border-red-500/30">
-                {errorMsg}
-            </div>
+          {/* Input Gate */}
+          {isLiveConnected && !isLocked && (
+              <InputGateIndicator
+                  mode={gateMode}
+                  isOpen={isGateOpen}
+                  pttKey={settings.input.pttKey}
+                  onTalk={(pressed) => liveSessionRef.current?.setTalking(pressed)}
+              />
+          )}
+
+          {/* Error Details */}
+          {errorMsg && (
+              <div className="mt-2 text-red-400 text-xs font-mono max-w-md text-center px-4 bg-red-900/20 py-2 rounded border border-red-500/30">
+                  {errorMsg}
+              </div>
+          )}
+
+          {/* Interpreter Captions */}
+          {mode === AppMode.INTERPRET && !isLocked ? (
+              <InterpreterCaptions
+                  lines={captions}
+                  settings={settings.interpreter}
+                  onChange={(interpreter) => updateSettings({ ...settings, interpreter })}
+                  isLive={isLiveConnected || isConnecting}
+                  onClear={() => setCaptions([])}
+              />
+          ) : (
+          <>
+          {/* Transcript */}
+          <div className="mt-8 h-24 w-full max-w-2xl px-6 text-center">
+              {transcript && !isLocked && (
+                  <div className={`transition-opacity duration-500 ${transcript ? 'opacity-100' : 'opacity-0'}`}>
+                      <div className="text-xs text-gray-500 mb-2 font-mono uppercase tracking-widest">
+                          JARVIS RESPONSE
+                      </div>
+                      <div className="text-lg md:text-2xl font-light leading-relaxed text-jarvis-cyan">
+                          "{transcript.text}"
+                      </div>
+                  </div>
+              )}
+          </div>
+
+          {/* Citations */}
+          {citations.length > 0 && !isLocked && (
+              <div className="mt-4 w-full max-w-2xl px-6">
+                  <CitationsPanel urls={citations} />
+              </div>
+          )}
+          </>
+          )}
+          </>
         )}
 
-        {/* Transcript */}
-        <div className="mt-8 h-24 w-full max-w-2xl px-6 text-center">
-            {transcript && (
-                <div className={`transition-opacity duration-500 ${transcript ? 'opacity-100' : 'opacity-0'}`}>
-                    <div className="text-xs text-gray-500 mb-2 font-mono uppercase tracking-widest">
-                        JARVIS RESPONSE
-                    </div>
-                    <div className="text-lg md:text-2xl font-light leading-relaxed text-jarvis-cyan">
-                        "{transcript.text}"
-                    </div>
-                </div>
-            )}
+      </main>
+
+      {/* --- SHARED CONTEXT --- */}
+      {isVoiceMode && !isLocked && (
+        <div className="absolute bottom-24 left-1/2 -translate-x-1/2 z-20 flex items-center space-x-2 max-w-xl">
+          {contextAttachments.length > 0 && (
+            <AttachmentChips attachments={contextAttachments} onRemove={removeContextAttachment} />
+          )}
+          <input
+            ref={contextInputRef}
+            type="file"
+            multiple
+            accept={ATTACHMENT_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              shareWithVoice(e.target.files);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => contextInputRef.current?.click()}
+            title="Share PDF, text, Markdown, CSV or images with JARVIS (or drop files anywhere)"
+            className="shrink-0 px-3 py-1 border border-gray-700 rounded-full text-[10px] font-mono tracking-widest text-gray-500 hover:text-jarvis-cyan hover:border-jarvis-cyan"
+          >
+            + ATTACH
+          </button>
         </div>
+      )}
 
-      </main>
+      {/* --- TIMERS & REMINDERS --- */}
+      {!isLocked && <ReminderPanel />}
+
+      {/* --- MEDIA PLAYER --- */}
+      <MediaPlayerPanel hidden={isLocked} />
 
       {/* --- FOOTER --- */}
       <footer className="absolute bottom-0 w-full p-6 flex justify-center z-10 space-x-4">
           {!isLiveConnected && !isConnecting && (
               <button 
-                onClick={testAudio}
+                onClick={() => togglePanel('diagnostics')}
                 className="px-6 py-2 border border-gray-600 text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan rounded-full text-xs tracking-widest uppercase transition-colors"
               >
                   System Check
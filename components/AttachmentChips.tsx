@@ -0,0 +1,33 @@
+import React from 'react';
+import { Attachment } from '../types';
+import { formatSize, isImageAttachment } from '../services/attachments';
+
+interface Props {
+  attachments: Attachment[];
+  onRemove?: (id: string) => void;
+}
+
+const kindLabel = (a: Attachment) =>
+  a.mimeType === 'application/pdf' ? 'PDF' : a.mimeType === 'text/csv' ? 'CSV' : a.mimeType === 'text/markdown' ? 'MD' : isImageAttachment(a) ? 'IMG' : 'TXT';
+
+export const AttachmentChips: React.FC<Props> = ({ attachments, onRemove }) => (
+  <div className="flex flex-wrap gap-1.5">
+    {attachments.map(a => (
+      <div
+        key={a.id}
+        title={`${a.name} — ${formatSize(a.size)}`}
+        className="flex items-center max-w-[14rem] pl-1 pr-2 py-0.5 rounded-full border border-jarvis-cyan/40 bg-jarvis-cyan/5 text-[10px] font-mono text-jarvis-cyan"
+      >
+        {isImageAttachment(a) ? (
+          <img src={`data:${a.mimeType};base64,${a.data}`} alt="" className="w-4 h-4 rounded-full object-cover mr-1.5" />
+        ) : (
+          <span className="px-1 mr-1.5 rounded-full bg-jarvis-cyan/20 tracking-widest">{kindLabel(a)}</span>
+        )}
+        <span className="truncate">{a.name}</span>
+        {onRemove && (
+          <button onClick={() => onRemove(a.id)} className="ml-1.5 text-gray-500 hover:text-red-400" title="Remove">✕</button>
+        )}
+      </div>
+    ))}
+  </div>
+);
@@ -1,10 +1,27 @@
 import React, { useEffect, useRef } from 'react';
+import { AudioVisualizerProps } from '../types';
 
-interface Props {
-  mode: 'idle' | 'listening' | 'speaking';
+const INPUT_COLOR = '#ffffff';  // User voice
+const OUTPUT_COLOR = '#00f3ff'; // JARVIS voice
+
+interface Channel {
+  kind: 'input' | 'output';
+  analyser: AnalyserNode;
+  color: string;
+  time: Float32Array;
+  freq: Uint8Array;
 }
 
-export const AudioVisualizer: React.FC<Props> = ({ mode }) => {
+const makeChannel = (analyser: AnalyserNode | null | undefined, kind: Channel['kind']): Channel | null =>
+  analyser ? {
+    kind,
+    analyser,
+    color: kind === 'input' ? INPUT_COLOR : OUTPUT_COLOR,
+    time: new Float32Array(analyser.fftSize),
+    freq: new Uint8Array(analyser.frequencyBinCount),
+  } : null;
+
+export const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ mode, style, inputAnalyser, outputAnalyser }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
 
   useEffect(() => {
@@ -24,8 +41,76 @@ export const AudioVisualizer: React.FC<Props> = ({ mode }) => {
     window.addEventListener('resize', resize);
     resize();
 
+    const channels = [
+      makeChannel(inputAnalyser, 'input'),
+      makeChannel(outputAnalyser, 'output'),
+    ].filter((c): c is Channel => c !== null);
+
     let animationId: number;
-    let offset = 0;
+
+    const glow = (color: string, blur: number) => {
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.shadowBlur = blur;
+      ctx.shadowColor = color;
+    };
+
+    // Oscilloscope trace across the widget, one line per channel
+    const drawWaveform = (ch: Channel, width: number, centerY: number) => {
+      ch.analyser.getFloatTimeDomainData(ch.time);
+      glow(ch.color, 10);
+      ctx.lineWidth = ch.kind === 'output' ? 3 : 2;
+      ctx.beginPath();
+      const step = ch.time.length / width;
+      for (let x = 0; x < width; x++) {
+        const y = centerY + ch.time[Math.floor(x * step)] * centerY * 0.9;
+        if (x === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    };
+
+    // Frequency bars: mic grows upward, JARVIS grows downward from the centre line
+    const drawSpectrum = (ch: Channel, width: number, centerY: number, direction: 1 | -1) => {
+      ch.analyser.getByteFrequencyData(ch.freq);
+      glow(ch.color, 6);
+      // Speech lives in the lower part of the spectrum
+      const bins = Math.floor(ch.freq.length * 0.5);
+      const bars = 48;
+      const barWidth = width / bars;
+      for (let i = 0; i < bars; i++) {
+        let peak = 0;
+        const from = Math.floor((i / bars) * bins);
+        const to = Math.max(from + 1, Math.floor(((i + 1) / bars) * bins));
+        for (let b = from; b < to; b++) peak = Math.max(peak, ch.freq[b]);
+        const h = (peak / 255) * centerY * 0.9;
+        ctx.globalAlpha = 0.4 + 0.6 * (peak / 255);
+        ctx.fillRect(i * barWidth + 1, direction === 1 ? centerY - h : centerY, barWidth - 2, h);
+      }
+      ctx.globalAlpha = 1.0;
+    };
+
+    // Arc reactor: radial bars around concentric rings (mic inner, JARVIS outer)
+    const drawArc = (ch: Channel, cx: number, cy: number, radius: number) => {
+      ch.analyser.getByteFrequencyData(ch.freq);
+      glow(ch.color, 12);
+      const bins = Math.floor(ch.freq.length * 0.5);
+      const spokes = 64;
+      ctx.lineWidth = 2;
+      ctx.globalAlpha = 0.35;
+      ctx.beginPath();
+      ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.globalAlpha = 1.0;
+      for (let i = 0; i < spokes; i++) {
+        const level = ch.freq[Math.floor((i / spokes) * bins)] / 255;
+        const angle = (i / spokes) * Math.PI * 2 - Math.PI / 2;
+        const len = 4 + level * radius * 0.45;
+        ctx.beginPath();
+        ctx.moveTo(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius);
+        ctx.lineTo(cx + Math.cos(angle) * (radius + len), cy + Math.sin(angle) * (radius + len));
+        ctx.stroke();
+      }
+    };
 
     const draw = () => {
       const width = canvas.width;
@@ -34,70 +119,28 @@ export const AudioVisualizer: React.FC<Props> = ({ mode }) => {
 
       ctx.clearRect(0, 0, width, height);
 
-      if (mode === 'idle') {
+      if (channels.length === 0) {
         // Idle State: Gentle pulse line
         ctx.beginPath();
-        ctx.strokeStyle = 'rgba(0, 168, 255, 0.3)';
+        ctx.strokeStyle = mode === 'idle' ? 'rgba(0, 168, 255, 0.3)' : 'rgba(0, 243, 255, 0.6)';
         ctx.lineWidth = 1;
         ctx.moveTo(0, centerY);
         ctx.lineTo(width, centerY);
         ctx.stroke();
-      } else if (mode === 'listening') {
-        // Listening State: Active Input (White/Green focus)
-        ctx.lineWidth = 2;
-        ctx.strokeStyle = '#ffffff'; // White for user input
-        ctx.shadowBlur = 10;
-        ctx.shadowColor = 'rgba(255, 255, 255, 0.5)';
-        
-        ctx.beginPath();
-        ctx.moveTo(0, centerY);
-
-        // Faster, sharper wave for voice input simulation
-        for (let x = 0; x < width; x++) {
-          const y = centerY + 
-            Math.sin((x + offset * 1.5) * 0.05) * 25 * Math.sin(x * 0.01);
-          
-          ctx.lineTo(x, y);
-        }
-        ctx.stroke();
-        ctx.shadowBlur = 0;
-      } else if (mode === 'speaking') {
-        // Speaking State: Complex AI Output (Cyan)
-        ctx.lineWidth = 3;
-        ctx.strokeStyle = '#00f3ff';
-        ctx.shadowBlur = 15;
-        ctx.shadowColor = '#00f3ff';
-        
-        ctx.beginPath();
-        ctx.moveTo(0, centerY);
-
-        for (let x = 0; x < width; x++) {
-          // Superposition of sine waves for "voice-like" complexity
-          const y = centerY + 
-            Math.sin((x + offset) * 0.03) * 30 * Math.sin(x * 0.005) + // Carrier
-            Math.sin((x - offset * 2) * 0.05) * 15;                   // Modulator
-          
-          ctx.lineTo(x, y);
-        }
-        ctx.stroke();
-        
-        // Mirror effect for "tech" look
-        ctx.globalAlpha = 0.2;
-        ctx.beginPath();
-        ctx.moveTo(0, centerY);
-        for (let x = 0; x < width; x++) {
-            const y = centerY - (
-              Math.sin((x + offset) * 0.03) * 30 * Math.sin(x * 0.005) +
-              Math.sin((x - offset * 2) * 0.05) * 15
-            );
-            ctx.lineTo(x, y);
-        }
-        ctx.stroke();
-        ctx.globalAlpha = 1.0;
+      } else {
+        channels.forEach(ch => {
+          if (style === 'waveform') {
+            drawWaveform(ch, width, centerY);
+          } else if (style === 'spectrum') {
+            drawSpectrum(ch, width, centerY, ch.kind === 'input' ? 1 : -1);
+          } else {
+            const base = Math.min(width, height) * (ch.kind === 'input' ? 0.18 : 0.3);
+            drawArc(ch, width / 2, centerY, base);
+          }
+        });
         ctx.shadowBlur = 0;
       }
 
-      offset += 8; // Speed of animation
       animationId = requestAnimationFrame(draw);
     };
 
@@ -107,12 +150,12 @@ export const AudioVisualizer: React.FC<Props> = ({ mode }) => {
         cancelAnimationFrame(animationId);
         window.removeEventListener('resize', resize);
     };
-  }, [mode]);
+  }, [mode, style, inputAnalyser, outputAnalyser]);
 
   return (
-    <canvas 
-      ref={canvasRef} 
+    <canvas
+      ref={canvasRef}
       className="w-full h-full"
     />
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { AuditEntry, AuditLog } from '../services/toolPolicy';
+import { GuardDecision } from '../services/tools';
+
+interface Props {
+  onClose: () => void;
+}
+
+const DECISION_COLORS: Record<GuardDecision, string> = {
+  allowed: 'text-green-400',
+  confirmed: 'text-green-300',
+  denied: 'text-red-500',
+  cancelled: 'text-yellow-500',
+  invalid: 'text-orange-400',
+  locked: 'text-red-400',
+  unknown: 'text-gray-400',
+};
+
+export const AuditTrail: React.FC<Props> = ({ onClose }) => {
+  const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+
+  const refresh = () => { AuditLog.list().then(setEntries); };
+  useEffect(refresh, []);
+
+  const clear = async () => {
+    if (!window.confirm("Erase the tool audit trail?")) return;
+    try {
+      await AuditLog.clear();
+    } catch (err) {
+      console.error("Failed to clear audit trail", err);
+    }
+    refresh();
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full max-w-md z-40 glass-panel flex flex-col font-sans">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-jarvis-cyan/20">
+        <div className="text-xs font-display tracking-[0.2em] text-jarvis-cyan">TOOL AUDIT TRAIL</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-jarvis-cyan text-xs font-mono">[ CLOSE ]</button>
+      </div>
+
+      <div className="flex justify-between items-center px-4 py-3 border-b border-jarvis-cyan/10 text-[10px] font-mono tracking-widest">
+        <span className="text-gray-500">{entries ? entries.length : '—'} ENTRIES</span>
+        <div className="space-x-2">
+          <button onClick={refresh} className="px-2 py-1 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan">
+            REFRESH
+          </button>
+          <button onClick={clear} className="px-2 py-1 border border-red-900 rounded text-red-500/70 hover:text-red-400 hover:border-red-500">
+            CLEAR
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide px-4 py-3 space-y-3">
+        {entries && entries.length === 0 && (
+          <div className="text-center text-xs text-gray-600 font-mono tracking-widest py-8">NO TOOL ACTIVITY RECORDED</div>
+        )}
+        {entries?.map(e => (
+          <div key={e.id} className="border-l-2 pl-3 py-1 border-gray-800 text-xs font-mono">
+            <div className="text-[10px] tracking-widest text-gray-500">
+              <span className={DECISION_COLORS[e.decision]}>{e.decision.toUpperCase()}</span>
+              {e.outcome && <span className={e.outcome === 'ok' ? 'text-gray-400' : 'text-red-400'}> / {e.outcome.toUpperCase()}</span>}
+              {' // '}{e.timestamp.toLocaleString()}
+            </div>
+            <div className="text-gray-400 mt-1 break-all">
+              <span className="text-yellow-400">{e.tool}</span>({JSON.stringify(e.args)})
+            </div>
+            {e.reason && <div className="text-gray-600 break-all">{e.reason}</div>}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
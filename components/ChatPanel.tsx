@@ -0,0 +1,165 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Attachment, Message } from '../types';
+import { ATTACHMENT_ACCEPT, readAttachment } from '../services/attachments';
+import { CitationsPanel } from './CitationsPanel';
+import { AttachmentChips } from './AttachmentChips';
+
+interface Props {
+  messages: Message[];
+  streamingText: string | null;
+  isBusy: boolean;
+  onSend: (text: string, attachments: Attachment[]) => void;
+}
+
+export const ChatPanel: React.FC<Props> = ({ messages, streamingText, isBusy, onSend }) => {
+  const [draft, setDraft] = useState('');
+  const [pending, setPending] = useState<Attachment[]>([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [messages, streamingText]);
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files?.length) return;
+    setAttachError(null);
+    for (const file of Array.from(files)) {
+      try {
+        const attachment = await readAttachment(file);
+        setPending(prev => [...prev, attachment]);
+      } catch (err: any) {
+        setAttachError(err.message);
+      }
+    }
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim() || (pending.length ? "Please review the attached file." : '');
+    if (!text || isBusy) return;
+    onSend(text, pending);
+    setDraft('');
+    setPending([]);
+    setAttachError(null);
+  };
+
+  return (
+    <div
+      className={`relative w-full max-w-3xl h-[60vh] flex flex-col glass-panel rounded-lg overflow-hidden ${isDragging ? 'ring-2 ring-jarvis-cyan' : ''}`}
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes('Files')) return;
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(true);
+      }}
+      onDragLeave={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDragging(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        e.stopPropagation();
+        setIsDragging(false);
+        addFiles(e.dataTransfer.files);
+      }}
+    >
+      <div ref={scrollRef} className="flex-1 overflow-y-auto scrollbar-hide p-4 space-y-4 font-sans">
+        {messages.length === 0 && streamingText === null && (
+          <div className="h-full flex items-center justify-center text-xs text-gray-500 font-mono tracking-widest uppercase">
+            Text channel open. Awaiting input, Sir.
+          </div>
+        )}
+        {messages.map(m => (
+          <div key={m.id} className={`flex flex-col ${m.role === 'user' ? 'items-end' : 'items-start'}`}>
+            <div className="text-[10px] text-gray-500 font-mono uppercase tracking-widest mb-1">
+              {m.role === 'user' ? 'YOU' : m.role === 'model' ? 'JARVIS' : 'SYSTEM'} // {m.timestamp.toLocaleTimeString()}
+            </div>
+            {m.isThinking ? (
+              <details className="max-w-[85%] px-4 py-2 rounded border border-purple-500/30 bg-purple-900/10 text-purple-200/80 text-sm">
+                <summary className="cursor-pointer text-[10px] font-mono tracking-widest text-purple-300">REASONING TRACE</summary>
+                <div className="mt-2 whitespace-pre-wrap leading-relaxed">{m.content}</div>
+              </details>
+            ) : (
+            <div className={`max-w-[85%] px-4 py-2 rounded whitespace-pre-wrap text-lg leading-relaxed ${
+              m.role === 'user' ? 'bg-jarvis-blue/10 border border-jarvis-blue/40 text-white' :
+              m.role === 'model' ? 'bg-jarvis-cyan/5 border border-jarvis-cyan/30 text-jarvis-cyan' :
+              'border border-gray-700 text-gray-400 text-sm font-mono'
+            }`}>
+              {m.content}
+            </div>
+            )}
+            {m.attachments && m.attachments.length > 0 && (
+              <div className={`max-w-[85%] mt-1 flex ${m.role === 'user' ? 'justify-end' : ''}`}>
+                <AttachmentChips attachments={m.attachments} />
+              </div>
+            )}
+            {m.groundingUrls && m.groundingUrls.length > 0 && (
+              <div className="max-w-[85%] w-full mt-2">
+                <CitationsPanel urls={m.groundingUrls} compact />
+              </div>
+            )}
+          </div>
+        ))}
+        {streamingText !== null && (
+          <div className="flex flex-col items-start">
+            <div className="text-[10px] text-purple-400 font-mono uppercase tracking-widest mb-1 animate-pulse">
+              JARVIS // TRANSMITTING
+            </div>
+            <div className="max-w-[85%] px-4 py-2 rounded whitespace-pre-wrap text-lg leading-relaxed bg-jarvis-cyan/5 border border-purple-500/40 text-jarvis-cyan">
+              {streamingText || '...'}
+            </div>
+          </div>
+        )}
+      </div>
+      {(pending.length > 0 || attachError) && (
+        <div className="px-4 py-2 border-t border-jarvis-cyan/20 space-y-1">
+          <AttachmentChips attachments={pending} onRemove={(id) => setPending(prev => prev.filter(a => a.id !== id))} />
+          {attachError && <div className="text-[10px] font-mono tracking-widest text-yellow-500">{attachError.toUpperCase()}</div>}
+        </div>
+      )}
+      <form onSubmit={submit} className="flex border-t border-jarvis-cyan/20">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={ATTACHMENT_ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            addFiles(e.target.files);
+            e.target.value = '';
+          }}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          title="Attach PDF, text, Markdown, CSV or images (or drop files here)"
+          className="px-4 text-xs font-mono tracking-widest border-r border-jarvis-cyan/20 text-gray-500 hover:text-jarvis-cyan"
+        >
+          ATTACH
+        </button>
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Type a command..."
+          className="flex-1 bg-transparent px-4 py-3 text-white font-sans text-lg outline-none placeholder:text-gray-600"
+        />
+        <button
+          type="submit"
+          disabled={isBusy || (!draft.trim() && pending.length === 0)}
+          className="px-6 text-xs font-bold tracking-widest border-l border-jarvis-cyan/20 text-jarvis-cyan hover:bg-jarvis-cyan/10 disabled:text-gray-600 disabled:hover:bg-transparent uppercase"
+        >
+          {isBusy ? 'Computing' : 'Transmit'}
+        </button>
+      </form>
+      {isDragging && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/70 text-xs font-mono tracking-widest text-jarvis-cyan pointer-events-none">
+          DROP FILES TO ATTACH
+        </div>
+      )}
+    </div>
+  );
+};
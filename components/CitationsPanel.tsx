@@ -0,0 +1,34 @@
+import React from 'react';
+
+interface Props {
+  urls: Array<{ title: string; uri: string }>;
+  compact?: boolean;
+}
+
+export const CitationsPanel: React.FC<Props> = ({ urls, compact = false }) => {
+  if (urls.length === 0) return null;
+
+  return (
+    <div className={`border border-jarvis-blue/30 rounded bg-jarvis-blue/5 ${compact ? 'px-3 py-2' : 'px-4 py-3'}`}>
+      <div className="text-[10px] text-gray-500 font-mono uppercase tracking-widest mb-1">
+        SOURCES // {urls.length}
+      </div>
+      <ol className="space-y-1 text-left">
+        {urls.map((u, i) => (
+          <li key={u.uri} className="text-xs font-mono truncate">
+            <span className="text-gray-600 mr-2">[{i + 1}]</span>
+            <a
+              href={u.uri}
+              target="_blank"
+              rel="noreferrer"
+              title={u.uri}
+              className="text-jarvis-blue hover:text-jarvis-cyan underline decoration-dotted"
+            >
+              {u.title}
+            </a>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
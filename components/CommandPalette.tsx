@@ -0,0 +1,302 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Schema, Type } from '@google/genai';
+import { toolRegistry } from '../services/tools';
+import {
+  CommandHistory, CommandInvocation, HotkeyStore, comboFromEvent, describeInvocation, fuzzyScore, isBindableCombo, parseArgValue, toolTitle,
+} from '../services/commands';
+
+interface Props {
+  // Same path as model tool calls: policy, confirmation, audit and log all apply
+  onRun: (tool: string, args: Record<string, unknown>) => Promise<any>;
+  onClose: () => void;
+}
+
+interface Entry {
+  key: string;
+  label: string;
+  detail: string;
+  tool: string;
+  // Recent actions carry their arguments and run as-is
+  args?: Record<string, unknown>;
+  combo?: string;
+}
+
+type View =
+  | { kind: 'search' }
+  | { kind: 'form'; tool: string; values: Record<string, string>; error?: string }
+  | { kind: 'result'; invocation: CommandInvocation; result: any };
+
+const MAX_RESULTS = 12;
+const RECENT_SHOWN = 5;
+
+const inputClass = "w-full bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-3 py-2 text-white outline-none font-mono text-sm";
+const labelClass = "block text-[10px] font-mono tracking-widest text-gray-500 mb-1";
+
+const paramsOf = (tool: string) => {
+  const params = toolRegistry.get(tool)?.declaration.parameters;
+  return { properties: (params?.properties || {}) as Record<string, Schema>, required: params?.required || [] };
+};
+
+const toValues = (args: Record<string, unknown> = {}) =>
+  Object.fromEntries(Object.entries(args).map(([k, v]) => [k, typeof v === 'string' ? v : JSON.stringify(v)]));
+
+// Ctrl/Cmd+K launcher: fuzzy search over tools and recent actions, with typed argument forms
+export const CommandPalette: React.FC<Props> = ({ onRun, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [selected, setSelected] = useState(0);
+  const [view, setView] = useState<View>({ kind: 'search' });
+  const [isRunning, setIsRunning] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+  const [boundCombo, setBoundCombo] = useState<string | null>(null);
+  const [hotkeys, setHotkeys] = useState(() => HotkeyStore.load());
+  const searchRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  // Re-read on returning to the list so the last run shows up
+  const recent = useMemo(() => CommandHistory.list(), [view.kind === 'search']);
+
+  const entries = useMemo<Entry[]>(() => {
+    const comboFor = (tool: string, args: Record<string, unknown>) =>
+      hotkeys.find(h => h.tool === tool && JSON.stringify(h.args) === JSON.stringify(args))?.combo;
+    const recentEntries: Entry[] = recent.map(r => ({
+      key: `recent:${r.tool}:${JSON.stringify(r.args)}`,
+      label: describeInvocation(r),
+      detail: 'RECENT',
+      tool: r.tool,
+      args: r.args,
+      combo: comboFor(r.tool, r.args),
+    }));
+    const toolEntries: Entry[] = toolRegistry.declarations().map(d => ({
+      key: `tool:${d.name}`,
+      label: toolTitle(d.name!),
+      detail: d.description || '',
+      tool: d.name!,
+      combo: comboFor(d.name!, {}),
+    }));
+
+    if (!query.trim()) return [...recentEntries.slice(0, RECENT_SHOWN), ...toolEntries];
+
+    // Labels count more than descriptions; recent actions win close calls
+    const scored = [...recentEntries, ...toolEntries].flatMap(entry => {
+      const byLabel = fuzzyScore(query, `${entry.label} ${entry.tool}`);
+      const byDetail = entry.args ? null : fuzzyScore(query, entry.detail);
+      const score = byLabel !== null ? byLabel : byDetail !== null ? byDetail - 10 : null;
+      return score === null ? [] : [{ entry, score: score + (entry.args ? 0.5 : 0) }];
+    });
+    return scored.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS).map(s => s.entry);
+  }, [query, recent, hotkeys]);
+
+  useEffect(() => setSelected(0), [query]);
+
+  useEffect(() => {
+    if (view.kind === 'search') searchRef.current?.focus();
+  }, [view.kind]);
+
+  // Keep the highlighted row visible while arrowing through the list
+  useEffect(() => {
+    listRef.current?.children[selected]?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const run = async (invocation: CommandInvocation) => {
+    setIsRunning(true);
+    const result = await onRun(invocation.tool, invocation.args);
+    setIsRunning(false);
+    // Bad arguments go back to the form with the registry's message
+    if (result?.error?.code === 'INVALID_ARGUMENT') {
+      setView({ kind: 'form', tool: invocation.tool, values: toValues(invocation.args), error: result.error.message });
+      return;
+    }
+    setView({ kind: 'result', invocation, result });
+  };
+
+  const openForm = (tool: string, args?: Record<string, unknown>) => {
+    setBoundCombo(null);
+    setIsCapturing(false);
+    setView({ kind: 'form', tool, values: toValues(args) });
+  };
+
+  const choose = (entry: Entry | undefined, edit = false) => {
+    if (!entry) return;
+    const hasParams = Object.keys(paramsOf(entry.tool).properties).length > 0;
+    if (edit) return openForm(entry.tool, entry.args);
+    if (entry.args) return run({ tool: entry.tool, args: entry.args });
+    if (hasParams) return openForm(entry.tool);
+    run({ tool: entry.tool, args: {} });
+  };
+
+  const formArgs = (tool: string, values: Record<string, string>) => {
+    const args: Record<string, unknown> = {};
+    for (const [field, schema] of Object.entries(paramsOf(tool).properties)) {
+      const value = parseArgValue(schema, values[field] ?? '');
+      if (value !== undefined) args[field] = value;
+    }
+    return args;
+  };
+
+  const onSearchKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected(i => Math.min(i + 1, entries.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(entries[selected]);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      choose(entries[selected], true);
+    }
+  };
+
+  // Escape steps back one view before closing
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Escape' || isCapturing) return;
+    e.preventDefault();
+    e.stopPropagation();
+    if (view.kind === 'search') onClose();
+    else setView({ kind: 'search' });
+  };
+
+  const captureHotkey = (e: React.KeyboardEvent, invocation: CommandInvocation) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.key === 'Escape') return setIsCapturing(false);
+    const combo = comboFromEvent(e.nativeEvent);
+    if (!combo || !isBindableCombo(combo)) return;
+    setHotkeys(HotkeyStore.bind(combo, invocation));
+    setBoundCombo(combo);
+    setIsCapturing(false);
+  };
+
+  const renderField = (tool: string, field: string, schema: Schema, values: Record<string, string>, required: boolean, autoFocus: boolean) => {
+    const value = values[field] ?? '';
+    const set = (v: string) => view.kind === 'form' && setView({ ...view, values: { ...view.values, [field]: v }, error: undefined });
+    const common = { value, autoFocus, onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => set(e.target.value), className: inputClass };
+    let control: React.ReactNode;
+    if (schema.enum?.length) {
+      control = (
+        <select {...common}>
+          {!required || !value ? <option value="">{required ? 'Select…' : '(default)'}</option> : null}
+          {schema.enum.map(opt => <option key={opt} value={opt}>{opt}</option>)}
+        </select>
+      );
+    } else if (schema.type === Type.BOOLEAN) {
+      control = (
+        <select {...common}>
+          <option value="">(default)</option>
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      );
+    } else if (schema.type === Type.NUMBER || schema.type === Type.INTEGER) {
+      control = <input {...common} type="number" step={schema.type === Type.INTEGER ? 1 : 'any'} min={schema.minimum} max={schema.maximum} />;
+    } else {
+      control = <input {...common} type="text" placeholder={schema.type === Type.ARRAY || schema.type === Type.OBJECT ? 'JSON' : ''} />;
+    }
+    return (
+      <div key={`${tool}:${field}`}>
+        <label className={labelClass}>{field.toUpperCase()}{required ? ' *' : ''}</label>
+        {control}
+        {schema.description && <div className="mt-1 text-[10px] text-gray-600">{schema.description}</div>}
+      </div>
+    );
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black/60 backdrop-blur-sm flex items-start justify-center pt-[12vh] px-6" onMouseDown={onClose} onKeyDown={onKeyDown}>
+      <div className="glass-panel rounded-lg w-full max-w-xl overflow-hidden font-mono" onMouseDown={(e) => e.stopPropagation()}>
+        {view.kind === 'search' && (
+          <>
+            <input
+              ref={searchRef}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={onSearchKeyDown}
+              placeholder="Search commands and recent actions…"
+              className="w-full bg-transparent border-b border-jarvis-cyan/20 px-4 py-3 text-white outline-none"
+            />
+            <div ref={listRef} className="max-h-[50vh] overflow-y-auto scrollbar-hide py-1">
+              {entries.length === 0 && <div className="px-4 py-6 text-center text-xs tracking-widest text-gray-600">NO MATCHING COMMANDS</div>}
+              {entries.map((entry, i) => (
+                <button
+                  key={entry.key}
+                  onMouseEnter={() => setSelected(i)}
+                  onClick={() => choose(entry)}
+                  className={`w-full flex items-center justify-between px-4 py-2 text-left ${i === selected ? 'bg-jarvis-cyan/10' : ''}`}
+                >
+                  <div className="min-w-0">
+                    <div className={`text-sm truncate ${i === selected ? 'text-jarvis-cyan' : 'text-gray-200'}`}>{entry.label}</div>
+                    <div className="text-[10px] tracking-widest text-gray-600 truncate">{entry.detail}</div>
+                  </div>
+                  {entry.combo && <span className="ml-3 shrink-0 px-1.5 py-0.5 border border-gray-700 rounded text-[10px] text-gray-400">{entry.combo}</span>}
+                </button>
+              ))}
+            </div>
+            <div className="px-4 py-2 border-t border-jarvis-cyan/10 text-[10px] tracking-widest text-gray-600">
+              ↑↓ SELECT · ENTER RUN · TAB ARGUMENTS / HOTKEY · ESC CLOSE
+            </div>
+          </>
+        )}
+
+        {view.kind === 'form' && (() => {
+          const { properties, required } = paramsOf(view.tool);
+          const invocation = { tool: view.tool, args: formArgs(view.tool, view.values) };
+          return (
+            <form
+              onSubmit={(e) => { e.preventDefault(); run(invocation); }}
+              className="p-4 space-y-3"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-xs tracking-widest text-jarvis-cyan">{toolTitle(view.tool).toUpperCase()}</span>
+                <button type="button" onClick={() => setView({ kind: 'search' })} className="text-[10px] tracking-widest text-gray-500 hover:text-jarvis-cyan">[ BACK ]</button>
+              </div>
+              <div className="text-[11px] text-gray-500 font-sans">{toolRegistry.get(view.tool)?.declaration.description}</div>
+              {Object.entries(properties).map(([field, schema], i) =>
+                renderField(view.tool, field, schema, view.values, required.includes(field), i === 0))}
+              {Object.keys(properties).length === 0 && <div className="text-[10px] tracking-widest text-gray-600">NO ARGUMENTS</div>}
+              {view.error && <div className="text-[10px] tracking-widest text-red-400">{view.error.toUpperCase()}</div>}
+              <div className="flex items-center justify-between pt-1 text-[10px] tracking-widest">
+                <button
+                  type="button"
+                  onClick={() => setIsCapturing(true)}
+                  onKeyDown={(e) => isCapturing && captureHotkey(e, invocation)}
+                  onBlur={() => setIsCapturing(false)}
+                  className={`px-3 py-1.5 border rounded ${isCapturing ? 'border-yellow-500 text-yellow-400 animate-pulse' : 'border-gray-700 text-gray-400 hover:text-jarvis-cyan'}`}
+                  title="Bind these exact arguments to a key combination"
+                >
+                  {isCapturing ? 'PRESS A KEY COMBINATION…' : boundCombo ? `BOUND TO ${boundCombo}` : 'BIND HOTKEY'}
+                </button>
+                <button
+                  type="submit"
+                  disabled={isRunning}
+                  className="px-4 py-1.5 border border-jarvis-cyan rounded text-jarvis-cyan hover:bg-jarvis-cyan/10 disabled:opacity-40"
+                >
+                  {isRunning ? 'RUNNING…' : 'RUN ⏎'}
+                </button>
+              </div>
+            </form>
+          );
+        })()}
+
+        {view.kind === 'result' && (
+          <div className="p-4 space-y-3">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-200 truncate">{describeInvocation(view.invocation)}</span>
+              <span className={`ml-3 text-[10px] tracking-widest ${view.result?.error ? 'text-red-400' : 'text-green-400'}`}>
+                {view.result?.error ? view.result.error.code : 'OK'}
+              </span>
+            </div>
+            <pre className="max-h-[40vh] overflow-auto scrollbar-hide bg-black/40 rounded p-3 text-[11px] text-gray-300 whitespace-pre-wrap break-all">
+              {JSON.stringify(view.result, null, 2)}
+            </pre>
+            <div className="flex justify-end space-x-2 text-[10px] tracking-widest">
+              <button onClick={() => openForm(view.invocation.tool, view.invocation.args)} className="px-3 py-1.5 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan">EDIT</button>
+              <button onClick={() => run(view.invocation)} disabled={isRunning} className="px-3 py-1.5 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan disabled:opacity-40">RUN AGAIN</button>
+              <button autoFocus onClick={onClose} className="px-3 py-1.5 border border-jarvis-cyan rounded text-jarvis-cyan hover:bg-jarvis-cyan/10">DONE</button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,36 @@
+import React from 'react';
+
+interface Props {
+  tool: string;
+  summary: string;
+  onResolve: (approved: boolean) => void;
+}
+
+// Blocks a sensitive tool until the user approves it here or says "confirm"/"cancel"
+export const ConfirmDialog: React.FC<Props> = ({ tool, summary, onResolve }) => (
+  <div className="absolute inset-0 z-50 bg-black/70 backdrop-blur-sm flex items-center justify-center p-6">
+    <div className="glass-panel border border-yellow-500/50 rounded-lg w-full max-w-md p-6 space-y-4 font-sans">
+      <div className="text-xs font-display tracking-[0.2em] text-yellow-400">AUTHORIZATION REQUIRED</div>
+      <div>
+        <div className="text-[10px] font-mono tracking-widest text-gray-500 mb-1">{tool.toUpperCase()}</div>
+        <div className="text-sm font-mono text-white break-all">{summary}</div>
+      </div>
+      <div className="text-[10px] font-mono tracking-widest text-gray-500">SAY "CONFIRM" OR "CANCEL"</div>
+      <div className="flex justify-end space-x-2 text-xs font-mono tracking-widest">
+        <button
+          onClick={() => onResolve(false)}
+          className="px-4 py-2 border border-gray-700 rounded text-gray-400 hover:text-white hover:border-gray-500"
+        >
+          CANCEL
+        </button>
+        <button
+          autoFocus
+          onClick={() => onResolve(true)}
+          className="px-4 py-2 border border-yellow-500 rounded text-yellow-400 hover:bg-yellow-500/10"
+        >
+          CONFIRM
+        </button>
+      </div>
+    </div>
+  </div>
+);
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { Message } from '../types';
+import { ConversationStore } from '../services/conversationStore';
+import { AttachmentChips } from './AttachmentChips';
+
+interface Props {
+  messages: Message[];
+  onClose: () => void;
+  onClear: () => void;
+}
+
+const download = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Firefox and Safari start the download asynchronously; revoking now would cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const ConversationLog: React.FC<Props> = ({ messages, onClose, onClear }) => {
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => ConversationStore.search(messages, query), [messages, query]);
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full max-w-md z-40 glass-panel flex flex-col font-sans">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-jarvis-cyan/20">
+        <div className="text-xs font-display tracking-[0.2em] text-jarvis-cyan">CONVERSATION LOG</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-jarvis-cyan text-xs font-mono">[ CLOSE ]</button>
+      </div>
+
+      <div className="px-4 py-3 border-b border-jarvis-cyan/10 space-y-2">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search log..."
+          className="w-full bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-3 py-2 text-white outline-none"
+        />
+        <div className="flex justify-between items-center text-[10px] font-mono tracking-widest">
+          <span className="text-gray-500">{results.length} / {messages.length} ENTRIES</span>
+          <div className="space-x-2">
+            <button
+              onClick={() => download(ConversationStore.toMarkdown(results), `jarvis-log-${stamp}.md`, 'text/markdown')}
+              className="px-2 py-1 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan"
+            >
+              EXPORT MD
+            </button>
+            <button
+              onClick={() => download(ConversationStore.toJson(results), `jarvis-log-${stamp}.json`, 'application/json')}
+              className="px-2 py-1 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan"
+            >
+              EXPORT JSON
+            </button>
+            <button
+              onClick={() => { if (window.confirm("Erase the entire conversation log?")) onClear(); }}
+              className="px-2 py-1 border border-red-900 rounded text-red-500/70 hover:text-red-400 hover:border-red-500"
+            >
+              CLEAR
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide px-4 py-3 space-y-3">
+        {results.length === 0 && (
+          <div className="text-center text-xs text-gray-600 font-mono tracking-widest py-8">NO MATCHING ENTRIES</div>
+        )}
+        {results.map(m => (
+          <div key={m.id} className="border-l-2 pl-3 py-1 border-gray-800">
+            <div className="text-[10px] font-mono tracking-widest text-gray-500">
+              <span className={m.role === 'user' ? 'text-white' : m.role === 'model' ? 'text-jarvis-cyan' : 'text-yellow-500'}>
+                {m.role === 'user' ? 'YOU' : m.role === 'model' ? (m.isThinking ? 'REASONING' : 'JARVIS') : 'TOOL'}
+              </span>
+              {' // '}{m.timestamp.toLocaleString()}
+            </div>
+            {m.toolCall ? (
+              <div className="text-xs font-mono text-gray-400 mt-1 break-all">
+                <span className="text-yellow-400">{m.toolCall.name}</span>({JSON.stringify(m.toolCall.args)})
+                <div className="text-gray-600">→ {JSON.stringify(m.toolCall.result)}</div>
+              </div>
+            ) : (
+              <div className={`text-sm whitespace-pre-wrap mt-1 ${m.isThinking ? 'text-purple-300/70 line-clamp-3' : 'text-gray-200'}`}>
+                {m.content}
+              </div>
+            )}
+            {m.attachments && m.attachments.length > 0 && (
+              <div className="mt-1">
+                <AttachmentChips attachments={m.attachments} />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
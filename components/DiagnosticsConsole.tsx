@@ -0,0 +1,287 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DeviceSettings } from '../services/settings';
+import { canSelectOutputDevice, openMicrophone, selectOutputDevice } from '../services/audioUtils';
+import { AudioContextReport, AudioDevices, CheckResult, CheckStatus, Diagnostics, LoopbackResult, describeContext } from '../services/diagnostics';
+
+interface Props {
+  devices: DeviceSettings;
+  onDevicesChange: (devices: DeviceSettings) => void;
+  // The loopback test would beep into a running uplink
+  isLive: boolean;
+  onClose: () => void;
+}
+
+const STATUS_COLORS: Record<CheckStatus, string> = {
+  pass: 'text-green-400',
+  warn: 'text-yellow-400',
+  fail: 'text-red-500',
+};
+
+// Meter scale in dBFS
+const METER_FLOOR_DB = -60;
+const METER_INTERVAL_MS = 66;
+
+const sectionClass = "px-4 py-3 border-b border-jarvis-cyan/10 space-y-2";
+const headingClass = "text-[10px] font-mono tracking-widest text-gray-500";
+const selectClass = "w-full bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-2 py-1.5 text-xs text-white outline-none";
+const buttonClass = "px-2 py-1 border border-gray-700 rounded text-[10px] font-mono tracking-widest text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan disabled:opacity-30";
+
+const toDb = (amplitude: number) => amplitude > 0 ? Math.max(METER_FLOOR_DB, 20 * Math.log10(amplitude)) : METER_FLOOR_DB;
+const meterPercent = (db: number) => ((db - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100;
+const formatMs = (ms: number | null) => ms === null ? 'n/a' : `${ms} ms`;
+
+const deviceName = (d: MediaDeviceInfo, i: number) => d.label || `${d.kind === 'audioinput' ? 'Microphone' : 'Speaker'} ${i + 1}`;
+
+const ContextRow: React.FC<{ name: string; report: AudioContextReport | null }> = ({ name, report }) => (
+  <div className="grid grid-cols-4 gap-2 text-[11px] font-mono">
+    <span className="text-gray-400">{name}</span>
+    {report ? (
+      <>
+        <span className="text-white">{report.sampleRate} Hz</span>
+        <span className="text-white" title="Base latency / output latency">{formatMs(report.baseLatencyMs)} / {formatMs(report.outputLatencyMs)}</span>
+        <span className={report.state === 'running' ? 'text-green-400' : 'text-yellow-400'}>{report.state.toUpperCase()}</span>
+      </>
+    ) : (
+      <span className="col-span-3 text-gray-600">NOT RUNNING</span>
+    )}
+  </div>
+);
+
+// System Check: live mic meter, device pickers, audio engine figures, loopback latency and backend probes
+export const DiagnosticsConsole: React.FC<Props> = ({ devices, onDevicesChange, isLive, onClose }) => {
+  const [available, setAvailable] = useState<AudioDevices>({ inputs: [], outputs: [] });
+  const [level, setLevel] = useState({ rmsDb: METER_FLOOR_DB, peakDb: METER_FLOOR_DB });
+  const [micError, setMicError] = useState<string | null>(null);
+  const [track, setTrack] = useState<MediaTrackSettings | null>(null);
+  const [deviceContext, setDeviceContext] = useState<AudioContextReport | null>(null);
+  const [liveContexts, setLiveContexts] = useState(() => Diagnostics.liveContexts());
+  const [toneMessage, setToneMessage] = useState<string | null>(null);
+  const [loopback, setLoopback] = useState<LoopbackResult | null>(() => Diagnostics.lastLoopback());
+  const [loopbackError, setLoopbackError] = useState<string | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [probes, setProbes] = useState<CheckResult[] | null>(() => Diagnostics.lastProbes()?.results ?? null);
+  const [isProbing, setIsProbing] = useState(false);
+  const peakHoldRef = useRef(METER_FLOOR_DB);
+
+  const refreshDevices = () => { Diagnostics.devices().then(setAvailable).catch(() => {}); };
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshDevices);
+  }, []);
+
+  // Latency figures drift as the devices settle, so keep re-reading them
+  useEffect(() => {
+    const timer = window.setInterval(() => setLiveContexts(Diagnostics.liveContexts()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  // Live meter on the selected input, with the same processing the uplink uses
+  useEffect(() => {
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let ctx: AudioContext | null = null;
+    let timer = 0;
+    setMicError(null);
+
+    openMicrophone(devices.inputId)
+      .then(async s => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        ctx = new AudioContext();
+        if (ctx.state === 'suspended') await ctx.resume();
+        const analyser = ctx.createAnalyser();
+        analyser.fftSize = 2048;
+        ctx.createMediaStreamSource(s).connect(analyser);
+        setTrack(s.getAudioTracks()[0]?.getSettings() ?? null);
+        // Device labels appear once permission is granted
+        refreshDevices();
+
+        const data = new Float32Array(analyser.fftSize);
+        timer = window.setInterval(() => {
+          analyser.getFloatTimeDomainData(data);
+          let sum = 0;
+          let peak = 0;
+          for (const v of data) {
+            sum += v * v;
+            peak = Math.max(peak, Math.abs(v));
+          }
+          const peakDb = toDb(peak);
+          // Peak marker falls back slowly so short sounds stay visible
+          peakHoldRef.current = Math.max(peakDb, peakHoldRef.current - 1);
+          setLevel({ rmsDb: toDb(Math.sqrt(sum / data.length)), peakDb: peakHoldRef.current });
+          setDeviceContext(describeContext(ctx!));
+        }, METER_INTERVAL_MS);
+      })
+      .catch(err => {
+        if (!cancelled) setMicError(err.name === 'NotAllowedError' ? 'MICROPHONE PERMISSION DENIED' : `MICROPHONE UNAVAILABLE: ${err.message || err.name}`);
+      });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach(t => t.stop());
+      ctx?.close();
+      setDeviceContext(null);
+    };
+  }, [devices.inputId]);
+
+  const runProbes = async () => {
+    setIsProbing(true);
+    try {
+      setProbes(await Diagnostics.probeBackend());
+    } finally {
+      setIsProbing(false);
+    }
+  };
+
+  // Fresh probe results every time the console opens
+  useEffect(() => { runProbes(); }, []);
+
+  const runLoopback = async () => {
+    setIsMeasuring(true);
+    setLoopbackError(null);
+    try {
+      setLoopback(await Diagnostics.measureLoopback(devices.inputId, devices.outputId));
+    } catch (err: any) {
+      setLoopbackError(err.message || String(err));
+    } finally {
+      setIsMeasuring(false);
+    }
+  };
+
+  const playTone = async () => {
+    const ctx = new AudioContext();
+    try {
+      await selectOutputDevice(ctx, devices.outputId);
+      const osc = ctx.createOscillator();
+      const gain = ctx.createGain();
+      osc.frequency.value = 440;
+      gain.gain.setValueAtTime(0.1, ctx.currentTime);
+      gain.gain.exponentialRampToValueAtTime(0.00001, ctx.currentTime + 0.5);
+      osc.connect(gain).connect(ctx.destination);
+      osc.start();
+      osc.stop(ctx.currentTime + 0.5);
+      osc.onended = () => ctx.close();
+      const output = devices.outputId ? available.outputs.find(d => d.deviceId === devices.outputId)?.label || 'SELECTED SPEAKER' : 'SYSTEM DEFAULT';
+      setToneMessage(`440 HZ TONE SENT TO ${output.toUpperCase()}`);
+    } catch (err: any) {
+      ctx.close();
+      setToneMessage(`TONE FAILED: ${err.message || err.name}`);
+    }
+  };
+
+  const rmsColor = level.rmsDb > -3 ? 'bg-red-500' : level.rmsDb > -12 ? 'bg-yellow-400' : 'bg-green-400';
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full max-w-md z-40 glass-panel flex flex-col font-sans">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-jarvis-cyan/20">
+        <div className="text-xs font-display tracking-[0.2em] text-jarvis-cyan">SYSTEM DIAGNOSTICS</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-jarvis-cyan text-xs font-mono">[ CLOSE ]</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide">
+        <div className={sectionClass}>
+          <div className={headingClass}>MICROPHONE</div>
+          <select value={devices.inputId} onChange={(e) => onDevicesChange({ ...devices, inputId: e.target.value })} className={selectClass}>
+            <option value="">System default</option>
+            {available.inputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{deviceName(d, i)}</option>
+            ))}
+          </select>
+          {micError ? (
+            <div className="text-[10px] font-mono tracking-widest text-red-500">{micError}</div>
+          ) : (
+            <>
+              <div className="relative h-3 bg-gray-900 rounded overflow-hidden">
+                <div className={`h-full ${rmsColor} transition-[width] duration-75`} style={{ width: `${meterPercent(level.rmsDb)}%` }} />
+                <div className="absolute top-0 h-full w-0.5 bg-white" style={{ left: `${meterPercent(level.peakDb)}%` }} />
+              </div>
+              <div className="flex justify-between text-[10px] font-mono text-gray-500 tabular-nums">
+                <span>RMS {level.rmsDb.toFixed(0)} dBFS</span>
+                <span>PEAK {level.peakDb.toFixed(0)} dBFS</span>
+              </div>
+              {track && (
+                <div className="text-[10px] font-mono text-gray-600">
+                  {track.sampleRate ? `${track.sampleRate} Hz` : 'RATE n/a'} · {track.channelCount ?? '?'} CH · AEC {track.echoCancellation ? 'ON' : 'OFF'} · NS {track.noiseSuppression ? 'ON' : 'OFF'} · AGC {track.autoGainControl ? 'ON' : 'OFF'}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className={sectionClass}>
+          <div className={headingClass}>SPEAKERS</div>
+          <select
+            value={devices.outputId}
+            disabled={!canSelectOutputDevice()}
+            onChange={(e) => onDevicesChange({ ...devices, outputId: e.target.value })}
+            className={`${selectClass} disabled:opacity-40`}
+          >
+            <option value="">System default</option>
+            {available.outputs.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+              <option key={d.deviceId} value={d.deviceId}>{deviceName(d, i)}</option>
+            ))}
+          </select>
+          {!canSelectOutputDevice() && <div className="text-[10px] font-mono tracking-widest text-gray-600">THIS BROWSER ALWAYS USES THE SYSTEM DEFAULT OUTPUT</div>}
+          <div className="flex items-center space-x-3">
+            <button onClick={playTone} className={buttonClass}>TEST TONE</button>
+            {toneMessage && <span className="text-[10px] font-mono tracking-widest text-gray-500">{toneMessage}</span>}
+          </div>
+        </div>
+
+        <div className={sectionClass}>
+          <div className={headingClass}>AUDIO ENGINE // RATE · BASE / OUTPUT LATENCY · STATE</div>
+          <ContextRow name="DEVICE" report={deviceContext} />
+          <ContextRow name="UPLINK MIC" report={liveContexts.capture} />
+          <ContextRow name="UPLINK OUT" report={liveContexts.playback} />
+        </div>
+
+        <div className={sectionClass}>
+          <div className="flex items-center justify-between">
+            <span className={headingClass}>LOOPBACK LATENCY</span>
+            <button onClick={runLoopback} disabled={isMeasuring || isLive} className={buttonClass}>
+              {isMeasuring ? 'MEASURING…' : 'RUN TEST'}
+            </button>
+          </div>
+          <div className="text-[10px] font-mono text-gray-600">
+            {isLive ? 'TERMINATE UPLINK TO RUN THE TEST.' : 'PLAYS FOUR BEEPS; USE SPEAKERS, NOT HEADPHONES, AND KEEP THE ROOM QUIET.'}
+          </div>
+          {loopbackError && <div className="text-[10px] font-mono tracking-widest text-red-500">{loopbackError.toUpperCase()}</div>}
+          {loopback && !loopbackError && (
+            <div className="flex justify-between text-xs font-mono">
+              <span className={STATUS_COLORS[Diagnostics.loopbackStatus(loopback)]}>
+                {loopback.latencyMs === null ? 'NO BEEPS HEARD' : `${loopback.latencyMs} MS ROUND TRIP`}
+              </span>
+              <span className="text-gray-500">{loopback.pulsesHeard}/{loopback.pulsesSent} DETECTED</span>
+            </div>
+          )}
+        </div>
+
+        <div className={sectionClass}>
+          <div className="flex items-center justify-between">
+            <span className={headingClass}>BACKEND PROBES</span>
+            <button onClick={runProbes} disabled={isProbing} className={buttonClass}>
+              {isProbing ? 'PROBING…' : 'RE-RUN'}
+            </button>
+          </div>
+          {probes?.map(p => (
+            <div key={p.id} className="text-xs font-mono">
+              <div className="flex justify-between">
+                <span className="text-gray-300">{p.label}</span>
+                <span className={STATUS_COLORS[p.status]}>
+                  {p.status.toUpperCase()}{p.ms !== undefined ? ` · ${p.ms} MS` : ''}
+                </span>
+              </div>
+              <div className="text-[10px] text-gray-600 break-all">{p.detail}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </aside>
+  );
+};
@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { CommandHistory, DEFAULT_HOTKEYS, HotkeyBinding, HotkeyStore, comboFromEvent, describeInvocation, isBindableCombo } from '../services/commands';
+
+const labelClass = "block text-[10px] font-mono tracking-widest text-gray-500 mb-1";
+
+// Hotkeys call tools directly; new ones are bound from the command palette (Ctrl+K, then Tab)
+export const HotkeySettings: React.FC = () => {
+  const [bindings, setBindings] = useState<HotkeyBinding[]>(() => HotkeyStore.load());
+  const [recentCleared, setRecentCleared] = useState(false);
+
+  const save = (next: HotkeyBinding[]) => {
+    HotkeyStore.save(next);
+    setBindings(next);
+  };
+
+  const rebind = (binding: HotkeyBinding, e: React.KeyboardEvent) => {
+    if (e.key === 'Tab') return;
+    e.preventDefault();
+    const combo = comboFromEvent(e.nativeEvent);
+    if (!combo || !isBindableCombo(combo)) return;
+    // The combo moves here from whichever binding held it
+    save(bindings.filter(b => b.id === binding.id || b.combo !== combo).map(b => b.id === binding.id ? { ...b, combo } : b));
+  };
+
+  return (
+    <div className="pt-4 border-t border-jarvis-cyan/10 space-y-3">
+      <div className="flex items-center justify-between">
+        <label className={labelClass}>KEYBOARD SHORTCUTS</label>
+        <button onClick={() => save(DEFAULT_HOTKEYS)} className="text-[10px] font-mono tracking-widest text-gray-600 hover:text-jarvis-cyan">RESET</button>
+      </div>
+      <div className="flex items-center justify-between text-xs font-mono">
+        <span className="text-gray-300">Command palette</span>
+        <span className="px-2 py-0.5 border border-gray-800 rounded text-[10px] text-gray-500">Ctrl+K</span>
+      </div>
+      {bindings.map(binding => (
+        <div key={binding.id} className="flex items-center justify-between text-xs font-mono">
+          <span className="text-gray-300 truncate mr-2" title={describeInvocation(binding)}>{describeInvocation(binding)}</span>
+          <div className="flex items-center space-x-2 shrink-0">
+            <input
+              readOnly
+              value={binding.combo}
+              onKeyDown={(e) => rebind(binding, e)}
+              className="w-28 bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-2 py-0.5 text-[10px] text-center text-white outline-none cursor-pointer"
+              title="Focus and press a new key combination"
+            />
+            <button onClick={() => save(bindings.filter(b => b.id !== binding.id))} className="text-gray-600 hover:text-red-400" title="Remove">✕</button>
+          </div>
+        </div>
+      ))}
+      {bindings.length === 0 && <div className="text-[10px] font-mono tracking-widest text-gray-600">NO HOTKEYS BOUND</div>}
+      <div className="flex items-center justify-between text-[10px] font-mono tracking-widest text-gray-600">
+        <span>BIND MORE FROM THE PALETTE: CTRL+K, PICK A COMMAND, TAB</span>
+        <button
+          onClick={() => { CommandHistory.clear(); setRecentCleared(true); }}
+          disabled={recentCleared}
+          className="hover:text-jarvis-cyan disabled:opacity-40"
+        >
+          {recentCleared ? 'HISTORY CLEARED' : 'CLEAR RECENT'}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { GalleryImage, ImageGallery, toDataUrl } from '../services/imageGallery';
+
+interface Props {
+  // Image to open with; bumps of `revision` reload after new renders
+  initialId?: string | null;
+  revision: number;
+  onEdit: (image: GalleryImage, instruction: string) => void;
+  onClose: () => void;
+}
+
+const actionClass = "px-2 py-1 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan";
+
+export const ImageGalleryPanel: React.FC<Props> = ({ initialId, revision, onEdit, onClose }) => {
+  const [images, setImages] = useState<GalleryImage[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(initialId || null);
+  const [instruction, setInstruction] = useState('');
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    ImageGallery.list().then(list => {
+      setImages(list);
+      setSelectedId(prev => prev && list.some(i => i.id === prev) ? prev : list[0]?.id || null);
+    });
+  }, [revision]);
+
+  useEffect(() => {
+    if (initialId) setSelectedId(initialId);
+  }, [initialId]);
+
+  const selected = images?.find(i => i.id === selectedId) || null;
+  const parent = selected?.parentId ? images?.find(i => i.id === selected.parentId) : null;
+
+  const copy = async () => {
+    try {
+      await ImageGallery.copy(selected);
+      setNotice("COPIED TO CLIPBOARD");
+    } catch (err) {
+      console.error("Clipboard copy failed", err);
+      setNotice("COPY FAILED");
+    }
+  };
+
+  const remove = async () => {
+    if (!window.confirm("Delete this image from the gallery?")) return;
+    await ImageGallery.remove(selected.id).catch(err => console.error("Failed to delete image", err));
+    setImages(prev => prev.filter(i => i.id !== selected.id));
+    setSelectedId(null);
+  };
+
+  const submitEdit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!instruction.trim()) return;
+    onEdit(selected, instruction.trim());
+    setInstruction('');
+    setNotice("EDIT QUEUED");
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full max-w-md z-40 glass-panel flex flex-col font-sans">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-jarvis-cyan/20">
+        <div className="text-xs font-display tracking-[0.2em] text-jarvis-cyan">IMAGE GALLERY</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-jarvis-cyan text-xs font-mono">[ CLOSE ]</button>
+      </div>
+
+      {selected && (
+        <div className="px-4 py-3 border-b border-jarvis-cyan/10 space-y-2">
+          <img src={toDataUrl(selected)} alt={selected.prompt} className="w-full max-h-72 object-contain rounded border border-jarvis-cyan/30 bg-black/40" />
+          <div className="text-sm text-gray-200">{selected.prompt}</div>
+          <div className="text-[10px] font-mono tracking-widest text-gray-500">
+            {selected.model} // {selected.timestamp.toLocaleString()}
+            {parent && (
+              <button onClick={() => setSelectedId(parent.id)} className="ml-2 text-jarvis-blue hover:text-jarvis-cyan">
+                EDITED FROM: {parent.prompt.slice(0, 24)}
+              </button>
+            )}
+          </div>
+          <div className="flex items-center space-x-2 text-[10px] font-mono tracking-widest">
+            <button onClick={() => ImageGallery.download(selected)} className={actionClass}>DOWNLOAD</button>
+            <button onClick={copy} className={actionClass}>COPY</button>
+            <button onClick={remove} className="px-2 py-1 border border-red-900 rounded text-red-500/70 hover:text-red-400 hover:border-red-500">DELETE</button>
+            {notice && <span className="text-yellow-500">{notice}</span>}
+          </div>
+          <form onSubmit={submitEdit} className="flex space-x-2">
+            <input
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder="Edit: make it darker, add a helmet..."
+              className="flex-1 bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-3 py-2 text-white text-sm outline-none"
+            />
+            <button type="submit" disabled={!instruction.trim()} className="px-3 border border-jarvis-cyan/50 rounded text-[10px] font-mono tracking-widest text-jarvis-cyan disabled:opacity-30">
+              EDIT
+            </button>
+          </form>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide px-4 py-3">
+        {images && images.length === 0 && (
+          <div className="text-center text-xs text-gray-600 font-mono tracking-widest py-8">NO IMAGES GENERATED YET</div>
+        )}
+        <div className="grid grid-cols-3 gap-2">
+          {images?.map(img => (
+            <button
+              key={img.id}
+              onClick={() => { setSelectedId(img.id); setNotice(null); }}
+              title={img.prompt}
+              className={`aspect-square rounded overflow-hidden border ${img.id === selectedId ? 'border-jarvis-cyan' : 'border-gray-800 hover:border-gray-600'}`}
+            >
+              <img src={toDataUrl(img)} alt={img.prompt} className="w-full h-full object-cover" />
+            </button>
+          ))}
+        </div>
+      </div>
+    </aside>
+  );
+};
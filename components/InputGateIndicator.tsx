@@ -0,0 +1,39 @@
+import React from 'react';
+import { InputGateMode } from '../services/inputGate';
+
+interface Props {
+  mode: InputGateMode;
+  isOpen: boolean;
+  pttKey: string;
+  onTalk: (pressed: boolean) => void;
+}
+
+const MODE_LABELS: Record<InputGateMode, string> = {
+  always: 'OPEN MIC',
+  vad: 'VOICE DETECT',
+  ptt: 'PUSH-TO-TALK',
+};
+
+// Shows whether mic audio is currently leaving the browser
+export const InputGateIndicator: React.FC<Props> = ({ mode, isOpen, pttKey, onTalk }) => {
+  const state = isOpen ? 'TRANSMITTING' : mode === 'ptt' ? `HOLD ${pttKey.replace(/^Key/, '').toUpperCase()}` : 'GATED';
+
+  return (
+    <div className="mt-4 flex items-center space-x-3 text-[10px] font-mono tracking-widest">
+      <div className={`flex items-center space-x-2 px-3 py-1 rounded-full border ${isOpen ? 'border-green-400/60 text-green-400' : 'border-gray-800 text-gray-500'}`}>
+        <span className={`w-2 h-2 rounded-full ${isOpen ? 'bg-green-400 animate-pulse' : 'bg-gray-700'}`}></span>
+        <span>MIC // {MODE_LABELS[mode]} // {state}</span>
+      </div>
+      {mode === 'ptt' && (
+        <button
+          onPointerDown={(e) => { e.currentTarget.setPointerCapture(e.pointerId); onTalk(true); }}
+          onPointerUp={() => onTalk(false)}
+          onPointerCancel={() => onTalk(false)}
+          className={`px-3 py-1 rounded-full border select-none ${isOpen ? 'border-green-400 text-green-400 bg-green-400/10' : 'border-jarvis-cyan/50 text-jarvis-cyan hover:bg-jarvis-cyan/10'}`}
+        >
+          HOLD TO TALK
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+import { CaptionLine } from '../services/captions';
+import { INTERPRETER_LANGUAGES, InterpreterSettings } from '../services/settings';
+
+interface Props {
+  lines: CaptionLine[];
+  settings: InterpreterSettings;
+  onChange: (settings: InterpreterSettings) => void;
+  // Languages are fixed for the lifetime of an uplink
+  isLive: boolean;
+  onClear: () => void;
+}
+
+const selectClass = "bg-black border border-gray-700 focus:border-jarvis-cyan text-jarvis-cyan rounded px-2 py-1 outline-none disabled:opacity-50";
+
+export const InterpreterCaptions: React.FC<Props> = ({ lines, settings, onChange, isLive, onClear }) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest line in view
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [lines]);
+
+  const languageField = (key: 'source' | 'target') => (
+    <input
+      list="interpreter-languages"
+      value={settings[key]}
+      disabled={isLive}
+      onChange={(e) => onChange({ ...settings, [key]: e.target.value })}
+      className={`${selectClass} w-36`}
+    />
+  );
+
+  return (
+    <div className="mt-6 w-full max-w-4xl px-6 font-mono">
+      <div className="flex flex-wrap items-center justify-center gap-2 text-[10px] tracking-widest">
+        {languageField('source')}
+        <button
+          onClick={() => onChange({ ...settings, source: settings.target, target: settings.source })}
+          disabled={isLive}
+          className="px-2 py-1 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan disabled:opacity-50"
+          title="Swap languages"
+        >
+          {settings.twoWay ? '⇄' : '→'}
+        </button>
+        {languageField('target')}
+        <datalist id="interpreter-languages">
+          {INTERPRETER_LANGUAGES.map(l => <option key={l} value={l} />)}
+        </datalist>
+        <button
+          onClick={() => onChange({ ...settings, twoWay: !settings.twoWay })}
+          disabled={isLive}
+          className={`px-2 py-1 border rounded disabled:opacity-50 ${settings.twoWay ? 'border-jarvis-cyan text-jarvis-cyan' : 'border-gray-700 text-gray-500'}`}
+        >
+          TWO-WAY {settings.twoWay ? 'ON' : 'OFF'}
+        </button>
+        {lines.length > 0 && (
+          <button onClick={onClear} className="px-2 py-1 text-gray-600 hover:text-red-400">CLEAR</button>
+        )}
+      </div>
+      {isLive && (
+        <div className="mt-1 text-center text-[10px] tracking-widest text-gray-600">TERMINATE UPLINK TO CHANGE LANGUAGES</div>
+      )}
+
+      <div className="mt-3 grid grid-cols-2 gap-4 text-[10px] tracking-widest text-gray-500 border-b border-jarvis-cyan/20 pb-1">
+        <span>ORIGINAL</span>
+        <span>TRANSLATION</span>
+      </div>
+      <div ref={scrollRef} className="h-40 overflow-y-auto scrollbar-hide font-sans">
+        {lines.length === 0 ? (
+          <div className="h-full flex items-center justify-center text-xs font-mono tracking-widest text-gray-600">
+            {isLive ? 'LISTENING FOR SPEECH...' : 'INITIATE TO START INTERPRETING'}
+          </div>
+        ) : lines.map(line => (
+          <div key={line.id} className={`grid grid-cols-2 gap-4 py-1.5 border-b border-gray-900 ${line.done ? '' : 'opacity-70'}`}>
+            <div className="text-gray-300 leading-snug">{line.original || '…'}</div>
+            <div className="text-jarvis-cyan leading-snug">{line.translation || '…'}</div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
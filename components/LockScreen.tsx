@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { LockService, UnlockResult } from '../services/lockService';
+
+interface Props {
+  onUnlock: () => void;
+}
+
+export const LockScreen: React.FC<Props> = ({ onUnlock }) => {
+  const [secret, setSecret] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [retryMs, setRetryMs] = useState(() => LockService.getRetryDelayMs());
+
+  // Countdown while attempts are throttled
+  useEffect(() => {
+    if (retryMs <= 0) return;
+    const timer = setInterval(() => setRetryMs(LockService.getRetryDelayMs()), 1000);
+    return () => clearInterval(timer);
+  }, [retryMs > 0]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isVerifying || retryMs > 0) return;
+    setMessage(null);
+
+    setIsVerifying(true);
+    let result: UnlockResult;
+    try {
+      result = await LockService.verify(secret);
+    } catch (err) {
+      // e.g. no WebCrypto outside a secure context
+      console.error("Passcode check failed", err);
+      setMessage("Passcode check needs a secure (https or localhost) connection.");
+      return;
+    } finally {
+      setIsVerifying(false);
+      setSecret('');
+    }
+    if (result.ok) {
+      LockService.setLocked(false);
+      onUnlock();
+      return;
+    }
+    if (result.reason === 'rate_limited' || result.retryAfterMs) {
+      setRetryMs(result.retryAfterMs || LockService.getRetryDelayMs());
+      setMessage("Too many failed attempts.");
+    } else if (result.reason === 'not_configured') {
+      setMessage("No passcode configured.");
+    } else {
+      setMessage("Authentication failed.");
+    }
+  };
+
+  return (
+    <div className="absolute inset-0 z-50 bg-black flex flex-col items-center justify-center space-y-8">
+        <div className="text-red-500 text-6xl font-bold animate-pulse tracking-[0.5em]">LOCKED</div>
+        <form onSubmit={submit} className="flex flex-col items-center space-y-3 w-72">
+            <input
+                type="password"
+                autoFocus
+                value={secret}
+                onChange={(e) => setSecret(e.target.value)}
+                placeholder="Passcode"
+                disabled={retryMs > 0}
+                className="w-full bg-red-900/10 border border-red-500/50 focus:border-red-400 text-red-200 text-center tracking-[0.4em] rounded px-4 py-3 outline-none font-mono disabled:opacity-40"
+            />
+            <button
+                type="submit"
+                disabled={isVerifying || retryMs > 0 || !secret}
+                className="px-8 py-3 bg-red-900/30 border border-red-500 text-red-500 hover:bg-red-900/50 rounded font-mono uppercase disabled:opacity-40"
+            >
+                {isVerifying ? 'Verifying...' : 'Authenticate to Unlock'}
+            </button>
+            {message && <div className="text-xs font-mono text-red-400 tracking-widest">{message.toUpperCase()}</div>}
+            {retryMs > 0 && (
+                <div className="text-xs font-mono text-yellow-500 tracking-widest">
+                    RETRY IN {Math.ceil(retryMs / 1000)}S
+                </div>
+            )}
+        </form>
+    </div>
+  );
+};
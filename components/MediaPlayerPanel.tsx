@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MediaEngine, MediaPlayer, MediaTrack, PlaybackStatus, PlayerState } from '../services/mediaPlayer';
+
+interface Props {
+  // Hidden rather than unmounted so playback survives the lock screen
+  hidden?: boolean;
+}
+
+// YouTube IFrame API player states
+const YT_STATUS: Record<number, PlaybackStatus> = { 0: 'ended', 1: 'playing', 2: 'paused', 3: 'loading' };
+
+let youtubeApi: Promise<any> | null = null;
+
+const loadYouTubeApi = () => youtubeApi ??= new Promise(resolve => {
+  const w = window as any;
+  if (w.YT?.Player) return resolve(w.YT);
+  const previous = w.onYouTubeIframeAPIReady;
+  w.onYouTubeIframeAPIReady = () => {
+    previous?.();
+    resolve(w.YT);
+  };
+  const script = document.createElement('script');
+  script.src = 'https://www.youtube.com/iframe_api';
+  document.head.appendChild(script);
+});
+
+const formatTime = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds || 0));
+  const m = Math.floor(total / 60);
+  return `${m}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Dashboard player docked bottom-right; appears whenever something is queued
+export const MediaPlayerPanel: React.FC<Props> = ({ hidden }) => {
+  const [player, setPlayer] = useState<PlayerState>(() => MediaPlayer.state());
+  const [collapsed, setCollapsed] = useState(false);
+  const youtubeHostRef = useRef<HTMLDivElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const activeRef = useRef<MediaTrack | null>(null);
+  const hasQueue = player.queue.length > 0;
+  const track = player.queue[player.index];
+
+  useEffect(() => MediaPlayer.subscribe(setPlayer), []);
+
+  // Refresh the progress bar while playing
+  useEffect(() => {
+    if (player.status !== 'playing') return;
+    const tick = setInterval(() => setPlayer(MediaPlayer.state()), 1000);
+    return () => clearInterval(tick);
+  }, [player.status]);
+
+  useEffect(() => {
+    if (!hasQueue) return;
+    let youtube: Promise<any> | null = null;
+    // Set once ready, for the synchronous position reads
+    let youtubeReady: any = null;
+    let disposed = false;
+
+    // Created on first use; YT.Player replaces the element it is given, so it gets its own child
+    const getYouTube = () => youtube ??= loadYouTubeApi().then(YT => new Promise<any>(resolve => {
+      const el = document.createElement('div');
+      youtubeHostRef.current?.appendChild(el);
+      const yt = new YT.Player(el, {
+        width: '100%',
+        height: '100%',
+        playerVars: { playsinline: 1, rel: 0 },
+        events: {
+          onReady: () => {
+            const { volume, muted } = MediaPlayer.state();
+            yt.setVolume(volume);
+            if (muted) yt.mute();
+            youtubeReady = yt;
+            resolve(yt);
+          },
+          onStateChange: (e: { data: number }) => {
+            const active = activeRef.current;
+            if (active?.source !== 'youtube' || !YT_STATUS[e.data]) return;
+            MediaPlayer.report(active.id, { status: YT_STATUS[e.data], duration: yt.getDuration(), title: yt.getVideoData?.()?.title || undefined });
+          },
+          onError: () => {
+            const active = activeRef.current;
+            if (active?.source === 'youtube') MediaPlayer.report(active.id, { status: 'error' });
+          },
+        },
+      });
+    }));
+
+    const ready = (fn: (yt: any) => void) => youtube?.then(yt => { if (!disposed) fn(yt); });
+
+    const engine: MediaEngine = {
+      load: (next, autoplay) => {
+        activeRef.current = next;
+        const video = videoRef.current!;
+        if (next.source === 'youtube') {
+          video.pause();
+          video.removeAttribute('src');
+          getYouTube().then(yt => {
+            if (disposed || activeRef.current !== next) return;
+            if (autoplay) yt.loadVideoById(next.ref);
+            else yt.cueVideoById(next.ref);
+          });
+        } else {
+          ready(yt => yt.stopVideo());
+          video.src = next.ref;
+          if (autoplay) video.play().catch(() => MediaPlayer.report(next.id, { status: 'paused' }));
+        }
+      },
+      play: () => {
+        if (activeRef.current?.source === 'youtube') ready(yt => yt.playVideo());
+        else videoRef.current?.play().catch(() => {});
+      },
+      pause: () => {
+        if (activeRef.current?.source === 'youtube') ready(yt => yt.pauseVideo());
+        else videoRef.current?.pause();
+      },
+      seekTo: (seconds) => {
+        if (activeRef.current?.source === 'youtube') ready(yt => yt.seekTo(seconds, true));
+        else if (videoRef.current) videoRef.current.currentTime = seconds;
+      },
+      setVolume: (volume, muted) => {
+        ready(yt => {
+          yt.setVolume(volume);
+          if (muted) yt.mute();
+          else yt.unMute();
+        });
+        if (videoRef.current) {
+          videoRef.current.volume = volume / 100;
+          videoRef.current.muted = muted;
+        }
+      },
+      // 0 means "unknown" to the caller
+      position: () => activeRef.current?.source === 'file' ? videoRef.current?.currentTime || 0 : youtubeReady?.getCurrentTime() || 0,
+      duration: () => activeRef.current?.source === 'file' ? videoRef.current?.duration || 0 : youtubeReady?.getDuration() || 0,
+    };
+
+    const detach = MediaPlayer.attach(engine);
+    return () => {
+      disposed = true;
+      detach();
+      activeRef.current = null;
+      youtube?.then(yt => yt.destroy());
+      if (youtubeHostRef.current) youtubeHostRef.current.innerHTML = '';
+    };
+  }, [hasQueue]);
+
+  // Events from the plain media element, ignored while a YouTube track is active
+  const reportVideo = (patch: Parameters<typeof MediaPlayer.report>[1]) => {
+    const active = activeRef.current;
+    if (active?.source === 'file') MediaPlayer.report(active.id, patch);
+  };
+
+  if (!hasQueue) return null;
+
+  const isPlaying = player.status === 'playing' || player.status === 'loading';
+  const progress = player.duration ? Math.min(100, (player.position / player.duration) * 100) : 0;
+
+  return (
+    <div className={`absolute bottom-24 right-6 z-20 w-80 glass-panel rounded-lg overflow-hidden font-mono ${hidden ? 'hidden' : ''}`}>
+      <div className="flex items-center justify-between px-3 py-2 text-[10px] tracking-widest">
+        <span className="text-jarvis-blue">MEDIA // {player.status.toUpperCase()}</span>
+        <div className="space-x-3">
+          <button onClick={() => setCollapsed(c => !c)} className="text-gray-500 hover:text-jarvis-cyan">{collapsed ? '[ EXPAND ]' : '[ MIN ]'}</button>
+          <button onClick={() => MediaPlayer.stop()} className="text-gray-500 hover:text-red-400">[ CLOSE ]</button>
+        </div>
+      </div>
+
+      {/* Players stay mounted while collapsed so audio keeps going */}
+      <div className={`relative bg-black ${collapsed ? 'h-0' : 'aspect-video'}`}>
+        <div ref={youtubeHostRef} className={`absolute inset-0 ${track?.source === 'youtube' ? '' : 'invisible'}`} />
+        <video
+          ref={videoRef}
+          playsInline
+          className={`absolute inset-0 w-full h-full ${track?.source === 'file' ? '' : 'invisible'}`}
+          onPlaying={() => reportVideo({ status: 'playing' })}
+          onPause={() => reportVideo({ status: 'paused' })}
+          onEnded={() => reportVideo({ status: 'ended' })}
+          onError={() => reportVideo({ status: 'error' })}
+          onLoadedMetadata={(e) => reportVideo({ duration: e.currentTarget.duration })}
+        />
+      </div>
+
+      <div className="px-3 py-2 space-y-2">
+        <div className="text-xs text-white truncate" title={track?.title}>{track?.title || '—'}</div>
+        <div
+          className="h-1 bg-gray-800 rounded cursor-pointer"
+          onClick={(e) => {
+            const rect = e.currentTarget.getBoundingClientRect();
+            if (player.duration) MediaPlayer.seek(((e.clientX - rect.left) / rect.width) * player.duration);
+          }}
+        >
+          <div className="h-full bg-jarvis-cyan rounded" style={{ width: `${progress}%` }} />
+        </div>
+        <div className="flex items-center justify-between text-[10px] text-gray-500 tabular-nums">
+          <span>{formatTime(player.position)}</span>
+          <span>{player.index + 1} / {player.queue.length}</span>
+          <span>{formatTime(player.duration)}</span>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3 text-jarvis-cyan">
+            <button onClick={() => MediaPlayer.previous()} className="hover:text-white" title="Previous">⏮</button>
+            <button onClick={() => isPlaying ? MediaPlayer.pause() : MediaPlayer.play()} className="hover:text-white text-lg" title={isPlaying ? 'Pause' : 'Play'}>
+              {isPlaying ? '⏸' : '▶'}
+            </button>
+            <button
+              onClick={() => MediaPlayer.next()}
+              disabled={player.index + 1 >= player.queue.length}
+              className="hover:text-white disabled:opacity-30"
+              title="Next"
+            >
+              ⏭
+            </button>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => MediaPlayer.setMuted(!player.muted)} className="text-[10px] tracking-widest text-gray-500 hover:text-jarvis-cyan w-10">
+              {player.muted ? 'MUTED' : `${player.volume}%`}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={100}
+              value={player.muted ? 0 : player.volume}
+              onChange={(e) => MediaPlayer.setVolume(Number(e.target.value))}
+              className="w-20 accent-cyan-400"
+            />
+          </div>
+        </div>
+
+        {player.queue.length > 1 && !collapsed && (
+          <div className="max-h-28 overflow-y-auto scrollbar-hide border-t border-gray-800 pt-1 space-y-0.5">
+            {player.queue.map((t, i) => (
+              <div key={t.id} className={`flex items-center justify-between text-[11px] ${i === player.index ? 'text-jarvis-cyan' : 'text-gray-400'}`}>
+                <button onClick={() => MediaPlayer.skipTo(i)} className="truncate text-left hover:text-white" title={t.title}>
+                  {i + 1}. {t.title}
+                </button>
+                <button onClick={() => MediaPlayer.remove(i)} className="ml-2 text-gray-600 hover:text-red-400" title="Remove">✕</button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { MEMORY_CATEGORIES, MemoryCategory, MemoryFact, MemoryStore } from '../services/memoryStore';
+
+interface Props {
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-3 py-2 text-white text-sm outline-none";
+const actionClass = "px-2 py-1 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan";
+
+// What JARVIS remembers about the user, editable by hand
+export const MemoryPanel: React.FC<Props> = ({ onClose }) => {
+  const [facts, setFacts] = useState<MemoryFact[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [newFact, setNewFact] = useState('');
+  const [newCategory, setNewCategory] = useState<MemoryCategory>('preference');
+
+  const refresh = () => { MemoryStore.list().then(setFacts); };
+  useEffect(refresh, []);
+
+  const visible = facts && query.trim() ? MemoryStore.rank(facts, query) : facts;
+
+  const add = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newFact.trim()) return;
+    await MemoryStore.remember(newFact, newCategory).catch(err => console.error("Failed to save memory", err));
+    setNewFact('');
+    refresh();
+  };
+
+  const saveEdit = async (fact: MemoryFact) => {
+    if (draft.trim() && draft.trim() !== fact.text) {
+      await MemoryStore.update(fact.id, { text: draft.trim() }).catch(err => console.error("Failed to update memory", err));
+    }
+    setEditingId(null);
+    refresh();
+  };
+
+  const setCategory = async (fact: MemoryFact, category: MemoryCategory) => {
+    await MemoryStore.update(fact.id, { category }).catch(err => console.error("Failed to update memory", err));
+    refresh();
+  };
+
+  const remove = async (fact: MemoryFact) => {
+    await MemoryStore.forget(fact.id).catch(err => console.error("Failed to delete memory", err));
+    refresh();
+  };
+
+  const clear = async () => {
+    if (!window.confirm("Make JARVIS forget everything it remembers about you?")) return;
+    await MemoryStore.clear().catch(err => console.error("Failed to clear memories", err));
+    refresh();
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full max-w-md z-40 glass-panel flex flex-col font-sans">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-jarvis-cyan/20">
+        <div className="text-xs font-display tracking-[0.2em] text-jarvis-cyan">LONG-TERM MEMORY</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-jarvis-cyan text-xs font-mono">[ CLOSE ]</button>
+      </div>
+
+      <div className="px-4 py-3 border-b border-jarvis-cyan/10 space-y-2">
+        <form onSubmit={add} className="flex space-x-2">
+          <input value={newFact} onChange={(e) => setNewFact(e.target.value)} placeholder="Teach JARVIS a fact..." className={inputClass} />
+          <select
+            value={newCategory}
+            onChange={(e) => setNewCategory(e.target.value as MemoryCategory)}
+            className="bg-black/40 border border-gray-700 rounded px-2 text-xs text-gray-300 font-mono uppercase"
+          >
+            {MEMORY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <button type="submit" disabled={!newFact.trim()} className="px-3 border border-jarvis-cyan/50 rounded text-[10px] font-mono tracking-widest text-jarvis-cyan disabled:opacity-30">
+            ADD
+          </button>
+        </form>
+        <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search memories..." className={inputClass} />
+        <div className="flex justify-between items-center text-[10px] font-mono tracking-widest">
+          <span className="text-gray-500">{visible ? visible.length : '—'} / {facts ? facts.length : '—'} FACTS</span>
+          <button onClick={clear} className="px-2 py-1 border border-red-900 rounded text-red-500/70 hover:text-red-400 hover:border-red-500">
+            FORGET ALL
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide px-4 py-3 space-y-3">
+        {visible && visible.length === 0 && (
+          <div className="text-center text-xs text-gray-600 font-mono tracking-widest py-8">
+            {facts.length ? 'NO MATCHING MEMORIES' : 'NOTHING REMEMBERED YET'}
+          </div>
+        )}
+        {visible?.map(fact => (
+          <div key={fact.id} className="border-l-2 pl-3 py-1 border-gray-800 space-y-1">
+            <div className="flex items-center justify-between text-[10px] font-mono tracking-widest text-gray-500">
+              <select
+                value={fact.category}
+                onChange={(e) => setCategory(fact, e.target.value as MemoryCategory)}
+                className="bg-transparent text-yellow-500 uppercase outline-none"
+              >
+                {MEMORY_CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+              <span>{fact.updatedAt.toLocaleDateString()}</span>
+            </div>
+            {editingId === fact.id ? (
+              <div className="flex space-x-2">
+                <input
+                  autoFocus
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') saveEdit(fact); if (e.key === 'Escape') setEditingId(null); }}
+                  className={inputClass}
+                />
+                <button onClick={() => saveEdit(fact)} className={`${actionClass} text-[10px] font-mono tracking-widest`}>SAVE</button>
+              </div>
+            ) : (
+              <div className="flex items-start justify-between space-x-2">
+                <div className="text-sm text-gray-200">{fact.text}</div>
+                <div className="flex space-x-1 text-[10px] font-mono tracking-widest shrink-0">
+                  <button onClick={() => { setEditingId(fact.id); setDraft(fact.text); }} className={actionClass}>EDIT</button>
+                  <button onClick={() => remove(fact)} className="px-2 py-1 border border-red-900 rounded text-red-500/70 hover:text-red-400">DEL</button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
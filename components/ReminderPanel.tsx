@@ -0,0 +1,62 @@
+import React, { useEffect, useState } from 'react';
+import { Reminder, Scheduler, notificationPermission, requestNotificationPermission } from '../services/scheduler';
+
+const formatRemaining = (ms: number) => {
+  const total = Math.max(0, Math.ceil(ms / 1000));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return h > 0 ? `${h}:${pad(m)}:${pad(s)}` : `${pad(m)}:${pad(s)}`;
+};
+
+// Live countdowns for pending timers and reminders; hidden when there are none
+export const ReminderPanel: React.FC = () => {
+  const [items, setItems] = useState<Reminder[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [permission, setPermission] = useState(() => notificationPermission());
+
+  useEffect(() => Scheduler.subscribe(setItems), []);
+
+  useEffect(() => {
+    if (items.length === 0) return;
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(tick);
+  }, [items.length > 0]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-24 left-6 z-20 w-64 glass-panel rounded-lg p-3 space-y-2 font-mono">
+      <div className="flex items-center justify-between text-[10px] tracking-widest">
+        <span className="text-jarvis-blue">TIMERS // REMINDERS</span>
+        {permission === 'default' && (
+          <button
+            onClick={async () => setPermission(await requestNotificationPermission())}
+            className="text-gray-500 hover:text-jarvis-cyan"
+            title="Show desktop notifications when JARVIS is in the background"
+          >
+            ENABLE ALERTS
+          </button>
+        )}
+        {permission === 'denied' && <span className="text-gray-600" title="Allow notifications for this site in the browser settings">ALERTS BLOCKED</span>}
+      </div>
+      {items.map(r => (
+        <div key={r.id} className="flex items-center justify-between text-xs">
+          <div className="min-w-0">
+            <div className="text-jarvis-cyan text-sm tabular-nums">{formatRemaining(r.dueAt.getTime() - now)}</div>
+            <div className="text-gray-400 truncate" title={`${r.message} — ${r.dueAt.toLocaleString()}`}>
+              {r.kind === 'timer' ? '⏱' : '🔔'} {r.message}
+            </div>
+          </div>
+          <button
+            onClick={() => Scheduler.cancel(r.id)}
+            className="ml-2 text-[10px] tracking-widest text-gray-600 hover:text-red-400"
+          >
+            CANCEL
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
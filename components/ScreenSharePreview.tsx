@@ -0,0 +1,175 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FrameCrop, startFrameStream } from '../services/videoUtils';
+
+interface Props {
+  // Screen, window or tab picked by the user
+  stream: MediaStream;
+  isStreaming: boolean;
+  onFrame: (base64Jpeg: string) => void;
+  // Sharing ended from the browser's own controls
+  onStop: () => void;
+  // True while a screen, window or tab is actually being captured
+  onActiveChange: (active: boolean) => void;
+}
+
+// Screens change slowly and need more pixels than a camera to stay legible
+const FPS_OPTIONS = [0.2, 0.5, 1];
+const RESOLUTION_OPTIONS = [640, 1024, 1280];
+// Drags smaller than this (fraction of the frame) are treated as clicks
+const MIN_CROP = 0.05;
+
+type Point = { x: number; y: number };
+
+const toCrop = (a: Point, b: Point): FrameCrop => ({
+  x: Math.min(a.x, b.x),
+  y: Math.min(a.y, b.y),
+  width: Math.abs(a.x - b.x),
+  height: Math.abs(a.y - b.y),
+});
+
+const percent = (crop: FrameCrop) => ({
+  left: `${crop.x * 100}%`,
+  top: `${crop.y * 100}%`,
+  width: `${crop.width * 100}%`,
+  height: `${crop.height * 100}%`,
+});
+
+export const ScreenSharePreview: React.FC<Props> = ({ stream, isStreaming, onFrame, onStop, onActiveChange }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onFrameRef = useRef(onFrame);
+  const onStopRef = useRef(onStop);
+  const onActiveChangeRef = useRef(onActiveChange);
+  const [isShareReady, setIsShareReady] = useState(false);
+  const [aspect, setAspect] = useState(16 / 9);
+  const [fps, setFps] = useState(0.5);
+  const [maxWidth, setMaxWidth] = useState(1024);
+  const [crop, setCrop] = useState<FrameCrop | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [drag, setDrag] = useState<{ start: Point; end: Point } | null>(null);
+
+  onFrameRef.current = onFrame;
+  onStopRef.current = onStop;
+  onActiveChangeRef.current = onActiveChange;
+
+  useEffect(() => {
+    onActiveChangeRef.current(isShareReady);
+  }, [isShareReady]);
+
+  // Unmounting always clears the shared indicator
+  useEffect(() => () => onActiveChangeRef.current(false), []);
+
+  // The stream belongs to App, which stops it when SCREEN mode ends
+  useEffect(() => {
+    const track = stream.getVideoTracks()[0];
+    const handleEnded = () => onStopRef.current();
+    track?.addEventListener('ended', handleEnded);
+    if (videoRef.current) {
+      videoRef.current.srcObject = stream;
+      videoRef.current.play().catch(() => { /* autoplay handled by muted attr */ });
+    }
+    setIsShareReady(true);
+
+    return () => {
+      track?.removeEventListener('ended', handleEnded);
+      setIsShareReady(false);
+    };
+  }, [stream]);
+
+  // Frame uplink, restarted whenever the rate, resolution or region changes
+  useEffect(() => {
+    if (!isStreaming || !isShareReady || !videoRef.current) return;
+    return startFrameStream(videoRef.current, { fps, maxWidth, crop, skipUnchanged: true }, (frame) => onFrameRef.current(frame));
+  }, [isStreaming, isShareReady, fps, maxWidth, crop]);
+
+  const pointAt = (e: React.PointerEvent<HTMLDivElement>): Point => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const finishDrag = () => {
+    if (drag) {
+      const region = toCrop(drag.start, drag.end);
+      if (region.width >= MIN_CROP && region.height >= MIN_CROP) {
+        setCrop(region);
+        setIsSelecting(false);
+      }
+    }
+    setDrag(null);
+  };
+
+  const shown = drag ? toCrop(drag.start, drag.end) : crop;
+
+  return (
+    <div className="glass-panel rounded-lg overflow-hidden w-80 border border-red-500/40">
+      <div className="flex justify-between items-center px-3 py-1 text-[10px] font-mono tracking-widest">
+        <span className="text-red-400">SCREEN FEED{crop ? ' // REGION' : ''}</span>
+        <span className={isStreaming && isShareReady ? 'text-green-400 animate-pulse' : 'text-gray-600'}>
+          {isStreaming && isShareReady ? `● TX ${fps} FPS` : 'STANDBY'}
+        </span>
+      </div>
+      <div className="relative bg-black" style={{ aspectRatio: aspect }}>
+        <video
+          ref={videoRef}
+          muted
+          playsInline
+          className="absolute inset-0 w-full h-full"
+          onLoadedMetadata={(e) => {
+            const v = e.currentTarget;
+            if (v.videoWidth && v.videoHeight) setAspect(v.videoWidth / v.videoHeight);
+          }}
+        />
+        {shown && (
+          <div className="absolute border-2 border-jarvis-cyan shadow-[0_0_0_9999px_rgba(0,0,0,0.55)] pointer-events-none" style={percent(shown)} />
+        )}
+        {isSelecting && (
+          <div
+            className="absolute inset-0 cursor-crosshair"
+            onPointerDown={(e) => {
+              e.currentTarget.setPointerCapture(e.pointerId);
+              const p = pointAt(e);
+              setDrag({ start: p, end: p });
+            }}
+            onPointerMove={(e) => drag && setDrag({ ...drag, end: pointAt(e) })}
+            onPointerUp={finishDrag}
+          />
+        )}
+      </div>
+      <div className="flex justify-between items-center px-3 py-2 text-[10px] font-mono">
+        <select
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+          className="bg-black border border-gray-700 text-jarvis-cyan rounded px-1"
+        >
+          {FPS_OPTIONS.map(f => <option key={f} value={f}>{f} FPS</option>)}
+        </select>
+        <select
+          value={maxWidth}
+          onChange={(e) => setMaxWidth(Number(e.target.value))}
+          className="bg-black border border-gray-700 text-jarvis-cyan rounded px-1"
+        >
+          {RESOLUTION_OPTIONS.map(w => <option key={w} value={w}>{w}px</option>)}
+        </select>
+        {crop || isSelecting ? (
+          <button
+            onClick={() => { setCrop(null); setIsSelecting(false); setDrag(null); }}
+            className="tracking-widest text-gray-400 hover:text-jarvis-cyan"
+          >
+            {isSelecting ? 'CANCEL' : 'FULL FRAME'}
+          </button>
+        ) : (
+          <button
+            onClick={() => setIsSelecting(true)}
+            disabled={!isShareReady}
+            className="tracking-widest text-gray-400 hover:text-jarvis-cyan disabled:opacity-30"
+            title="Drag over the preview to send only that region"
+          >
+            CROP REGION
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,367 @@
+import React, { useState } from 'react';
+import { BackendKind, BackendSettings, InputSettings, LANGUAGE_PRESETS, MODEL_PRESETS, PREBUILT_VOICES, Profile, Settings } from '../services/settings';
+import { InputGateMode } from '../services/inputGate';
+import { LockService } from '../services/lockService';
+import { ToolPolicySettings } from './ToolPolicySettings';
+import { HotkeySettings } from './HotkeySettings';
+
+interface Props {
+  settings: Settings;
+  onChange: (settings: Settings) => void;
+  onSecurityChange: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-3 py-2 text-white outline-none";
+const labelClass = "block text-[10px] font-mono tracking-widest text-gray-500 mb-1";
+
+const BACKENDS: Array<[BackendKind, string]> = [['gemini', 'GEMINI'], ['openai', 'OPENAI-COMPATIBLE']];
+
+const INPUT_MODES: Array<[InputGateMode, string]> = [['always', 'OPEN MIC'], ['vad', 'VOICE DETECT'], ['ptt', 'PUSH-TO-TALK']];
+
+export const SettingsPanel: React.FC<Props> = ({ settings, onChange, onSecurityChange, onClose }) => {
+  const [editingId, setEditingId] = useState(settings.activeProfileId);
+  const [idleMinutes, setIdleMinutes] = useState(() => LockService.getIdleMinutes());
+  const [hasPasscode, setHasPasscode] = useState(() => LockService.hasCredential());
+  const [currentSecret, setCurrentSecret] = useState('');
+  const [newSecret, setNewSecret] = useState('');
+  const [securityMessage, setSecurityMessage] = useState<string | null>(null);
+  const profile = settings.profiles.find(p => p.id === editingId) || settings.profiles[0];
+
+  const update = (patch: Partial<Profile>) => {
+    onChange({
+      ...settings,
+      profiles: settings.profiles.map(p => p.id === profile.id ? { ...p, ...patch } : p),
+    });
+  };
+
+  const updateInput = (patch: Partial<InputSettings>) => {
+    onChange({ ...settings, input: { ...settings.input, ...patch } });
+  };
+
+  const updateBackend = (patch: Partial<BackendSettings>) => {
+    onChange({ ...settings, backend: { ...settings.backend, ...patch } });
+  };
+
+  const duplicate = () => {
+    const copy: Profile = { ...profile, id: crypto.randomUUID(), name: `${profile.name} (copy)` };
+    onChange({ ...settings, profiles: [...settings.profiles, copy] });
+    setEditingId(copy.id);
+  };
+
+  const remove = () => {
+    if (settings.profiles.length <= 1) return;
+    const profiles = settings.profiles.filter(p => p.id !== profile.id);
+    const activeProfileId = settings.activeProfileId === profile.id ? profiles[0].id : settings.activeProfileId;
+    onChange({ ...settings, profiles, activeProfileId });
+    setEditingId(activeProfileId);
+  };
+
+  const changePasscode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSecurityMessage(null);
+    const invalid = LockService.validateSecret(newSecret);
+    if (invalid) {
+      setSecurityMessage(invalid);
+      return;
+    }
+    try {
+      // Replacing an existing passcode requires proving the old one
+      if (hasPasscode) {
+        const result = await LockService.verify(currentSecret);
+        if (!result.ok) {
+          setSecurityMessage(result.reason === 'rate_limited' ? "Too many failed attempts." : "Current passcode is incorrect.");
+          return;
+        }
+      }
+      await LockService.setCredential(newSecret);
+    } catch (err) {
+      console.error("Passcode update failed", err);
+      setSecurityMessage("Passcodes need a secure (https or localhost) connection.");
+      return;
+    }
+    setHasPasscode(true);
+    setCurrentSecret('');
+    setNewSecret('');
+    setSecurityMessage("Passcode updated.");
+    onSecurityChange();
+  };
+
+  const updateIdleMinutes = (minutes: number) => {
+    LockService.setIdleMinutes(minutes);
+    setIdleMinutes(LockService.getIdleMinutes());
+    onSecurityChange();
+  };
+
+  // Free-text model field with suggestions, so new model names need no code change
+  const modelField = (key: keyof typeof MODEL_PRESETS, label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <input
+        list={`models-${key}`}
+        value={profile[key]}
+        onChange={(e) => update({ [key]: e.target.value } as Partial<Profile>)}
+        className={`${inputClass} font-mono text-sm`}
+      />
+      <datalist id={`models-${key}`}>
+        {MODEL_PRESETS[key].map(m => <option key={m} value={m} />)}
+      </datalist>
+    </div>
+  );
+
+  return (
+    <aside className="absolute top-0 right-0 h-full w-full max-w-md z-40 glass-panel flex flex-col font-sans">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-jarvis-cyan/20">
+        <div className="text-xs font-display tracking-[0.2em] text-jarvis-cyan">SYSTEM CONFIGURATION</div>
+        <button onClick={onClose} className="text-gray-500 hover:text-jarvis-cyan text-xs font-mono">[ CLOSE ]</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide px-4 py-4 space-y-4">
+        <div>
+          <label className={labelClass}>PROFILES</label>
+          <div className="space-y-1">
+            {settings.profiles.map(p => (
+              <div
+                key={p.id}
+                className={`flex items-center justify-between px-3 py-2 rounded border cursor-pointer ${p.id === profile.id ? 'border-jarvis-cyan/60 bg-jarvis-cyan/5' : 'border-gray-800 hover:border-gray-600'}`}
+                onClick={() => setEditingId(p.id)}
+              >
+                <span className="text-white">{p.name}</span>
+                {p.id === settings.activeProfileId ? (
+                  <span className="text-[10px] font-mono tracking-widest text-green-400">ACTIVE</span>
+                ) : (
+                  <button
+                    onClick={(e) => { e.stopPropagation(); onChange({ ...settings, activeProfileId: p.id }); }}
+                    className="text-[10px] font-mono tracking-widest text-gray-500 hover:text-jarvis-cyan"
+                  >
+                    ACTIVATE
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2 mt-2 text-[10px] font-mono tracking-widest">
+            <button onClick={duplicate} className="px-2 py-1 border border-gray-700 rounded text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan">DUPLICATE</button>
+            <button
+              onClick={remove}
+              disabled={settings.profiles.length <= 1}
+              className="px-2 py-1 border border-red-900 rounded text-red-500/70 hover:text-red-400 disabled:opacity-30"
+            >
+              DELETE
+            </button>
+          </div>
+        </div>
+
+        <div>
+          <label className={labelClass}>PROFILE NAME</label>
+          <input value={profile.name} onChange={(e) => update({ name: e.target.value })} className={inputClass} />
+        </div>
+
+        <div>
+          <label className={labelClass}>PERSONA PROMPT</label>
+          <textarea
+            value={profile.persona}
+            onChange={(e) => update({ persona: e.target.value })}
+            rows={6}
+            className={`${inputClass} text-sm`}
+          />
+        </div>
+
+        <div>
+          <label className={labelClass}>RESPONSE LANGUAGE</label>
+          <input
+            list="language-presets"
+            value={profile.language}
+            onChange={(e) => update({ language: e.target.value })}
+            className={inputClass}
+          />
+          <datalist id="language-presets">
+            {LANGUAGE_PRESETS.map(l => <option key={l} value={l} />)}
+          </datalist>
+        </div>
+
+        <div>
+          <label className={labelClass}>VOICE</label>
+          <select value={profile.voice} onChange={(e) => update({ voice: e.target.value })} className={inputClass}>
+            {PREBUILT_VOICES.map(v => <option key={v} value={v}>{v}</option>)}
+          </select>
+        </div>
+
+        {modelField('chatModel', 'CHAT MODEL')}
+        {modelField('liveModel', 'LIVE (VOICE) MODEL')}
+        {modelField('imageModel', 'IMAGE MODEL')}
+        {modelField('thinkModel', 'REASONING MODEL')}
+
+        <div className="text-[10px] font-mono text-gray-600 tracking-widest">
+          CHANGES APPLY TO NEW MESSAGES AND THE NEXT VOICE UPLINK.
+        </div>
+
+        <div className="pt-4 border-t border-jarvis-cyan/10 space-y-3">
+          <label className={labelClass}>MODEL BACKEND</label>
+          <div className="flex space-x-2 text-[10px] font-mono tracking-widest">
+            {BACKENDS.map(([kind, label]) => (
+              <button
+                key={kind}
+                onClick={() => updateBackend({ kind })}
+                className={`flex-1 px-2 py-1 border rounded ${settings.backend.kind === kind ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/5' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {settings.backend.kind === 'openai' && (
+            <>
+              <div>
+                <label className={labelClass}>BASE URL</label>
+                <input
+                  value={settings.backend.baseUrl}
+                  onChange={(e) => updateBackend({ baseUrl: e.target.value })}
+                  placeholder="http://localhost:11434/v1"
+                  className={`${inputClass} font-mono text-sm`}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>API KEY (OPTIONAL)</label>
+                <input
+                  type="password"
+                  value={settings.backend.apiKey}
+                  onChange={(e) => updateBackend({ apiKey: e.target.value })}
+                  className={`${inputClass} font-mono text-sm`}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-2">
+                <div>
+                  <label className={labelClass}>STT MODEL</label>
+                  <input value={settings.backend.sttModel} onChange={(e) => updateBackend({ sttModel: e.target.value })} className={`${inputClass} font-mono text-sm`} />
+                </div>
+                <div>
+                  <label className={labelClass}>TTS MODEL</label>
+                  <input value={settings.backend.ttsModel} onChange={(e) => updateBackend({ ttsModel: e.target.value })} className={`${inputClass} font-mono text-sm`} />
+                </div>
+                <div>
+                  <label className={labelClass}>TTS VOICE</label>
+                  <input value={settings.backend.ttsVoice} onChange={(e) => updateBackend({ ttsVoice: e.target.value })} className={`${inputClass} font-mono text-sm`} />
+                </div>
+              </div>
+              <div className="text-[10px] font-mono text-gray-600 tracking-widest">
+                PROFILE MODEL NAMES ARE SENT AS-IS; SET THEM TO MODELS THIS SERVER HOSTS. VOICE RUNS AS SPEECH-TO-TEXT, CHAT, THEN TEXT-TO-SPEECH.
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="pt-4 border-t border-jarvis-cyan/10 space-y-3">
+          <label className={labelClass}>MICROPHONE INPUT</label>
+          <div className="flex space-x-2 text-[10px] font-mono tracking-widest">
+            {INPUT_MODES.map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => updateInput({ mode })}
+                className={`flex-1 px-2 py-1 border rounded ${settings.input.mode === mode ? 'border-jarvis-cyan text-jarvis-cyan bg-jarvis-cyan/5' : 'border-gray-800 text-gray-500 hover:text-gray-300'}`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+          {settings.input.mode === 'vad' && (
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className={labelClass}>SENSITIVITY (DB)</label>
+                <input
+                  type="number"
+                  min={3}
+                  max={30}
+                  value={settings.input.sensitivityDb}
+                  onChange={(e) => updateInput({ sensitivityDb: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>HANGOVER (MS)</label>
+                <input
+                  type="number"
+                  min={200}
+                  step={100}
+                  value={settings.input.hangoverMs}
+                  onChange={(e) => updateInput({ hangoverMs: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+          {settings.input.mode === 'ptt' && (
+            <div>
+              <label className={labelClass}>PUSH-TO-TALK KEY</label>
+              <input
+                readOnly
+                value={settings.input.pttKey}
+                onKeyDown={(e) => { e.preventDefault(); updateInput({ pttKey: e.code }); }}
+                className={`${inputClass} font-mono text-sm cursor-pointer`}
+                title="Focus and press the key to use"
+              />
+            </div>
+          )}
+          <div>
+            <label className={labelClass}>CAPTURE CHUNK (MS, APPLIES ON NEXT UPLINK)</label>
+            <input
+              type="number"
+              min={10}
+              max={200}
+              step={10}
+              value={settings.input.captureChunkMs}
+              onChange={(e) => updateInput({ captureChunkMs: Math.min(200, Math.max(10, Number(e.target.value) || 40)) })}
+              className={inputClass}
+            />
+          </div>
+        </div>
+
+        <form onSubmit={changePasscode} className="pt-4 border-t border-jarvis-cyan/10 space-y-3">
+          <label className={labelClass}>SECURITY // {hasPasscode ? 'PASSCODE SET' : 'NO PASSCODE'}</label>
+          {!hasPasscode && (
+            <div className="text-[10px] font-mono tracking-widest text-gray-600">LOCKING IS DISABLED UNTIL A PASSCODE IS SET</div>
+          )}
+          {hasPasscode && (
+            <input
+              type="password"
+              value={currentSecret}
+              onChange={(e) => setCurrentSecret(e.target.value)}
+              placeholder="Current passcode"
+              className={inputClass}
+            />
+          )}
+          <input
+            type="password"
+            value={newSecret}
+            onChange={(e) => setNewSecret(e.target.value)}
+            placeholder="New passcode"
+            className={inputClass}
+          />
+          <button
+            type="submit"
+            disabled={!newSecret}
+            className="px-3 py-1 border border-gray-700 rounded text-[10px] font-mono tracking-widest text-gray-400 hover:text-jarvis-cyan hover:border-jarvis-cyan disabled:opacity-30"
+          >
+            {hasPasscode ? 'CHANGE PASSCODE' : 'SET PASSCODE'}
+          </button>
+          {securityMessage && <div className="text-[10px] font-mono tracking-widest text-yellow-500">{securityMessage.toUpperCase()}</div>}
+
+          <div>
+            <label className={labelClass}>AUTO-LOCK AFTER IDLE (MINUTES, 0 = OFF)</label>
+            <input
+              type="number"
+              min={0}
+              value={idleMinutes}
+              disabled={!hasPasscode}
+              onChange={(e) => updateIdleMinutes(Number(e.target.value))}
+              className={`${inputClass} disabled:opacity-40`}
+            />
+          </div>
+        </form>
+
+        <HotkeySettings />
+
+        <ToolPolicySettings />
+      </div>
+    </aside>
+  );
+};
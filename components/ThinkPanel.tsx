@@ -0,0 +1,89 @@
+import React, { useState } from 'react';
+import { ThinkingWidget } from './ThinkingWidget';
+
+interface Props {
+  thoughts: string | null;
+  answer: string | null;
+  isBusy: boolean;
+  thinkingBudget: number;
+  speakAnswers: boolean;
+  onBudgetChange: (budget: number) => void;
+  onSpeakChange: (speak: boolean) => void;
+  onAsk: (question: string) => void;
+}
+
+const BUDGET_OPTIONS = [
+  { label: 'QUICK', value: 2048 },
+  { label: 'STANDARD', value: 8192 },
+  { label: 'DEEP', value: 24576 },
+  { label: 'AUTO', value: -1 },
+];
+
+export const ThinkPanel: React.FC<Props> = ({
+  thoughts, answer, isBusy, thinkingBudget, speakAnswers, onBudgetChange, onSpeakChange, onAsk
+}) => {
+  const [draft, setDraft] = useState('');
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text || isBusy) return;
+    onAsk(text);
+    setDraft('');
+  };
+
+  return (
+    <div className="w-full max-w-3xl max-h-[70vh] flex flex-col glass-panel rounded-lg overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-jarvis-cyan/20 text-[10px] font-mono tracking-widest">
+        <div className="flex space-x-2">
+          <span className="text-gray-500 self-center">THINKING BUDGET</span>
+          {BUDGET_OPTIONS.map(o => (
+            <button
+              key={o.value}
+              onClick={() => onBudgetChange(o.value)}
+              disabled={isBusy}
+              className={`px-2 py-1 border rounded ${thinkingBudget === o.value ? 'border-purple-400 text-purple-300 bg-purple-500/10' : 'border-gray-700 text-gray-500 hover:text-purple-300'}`}
+            >
+              {o.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center space-x-2 text-gray-400 cursor-pointer">
+          <input type="checkbox" checked={speakAnswers} onChange={(e) => onSpeakChange(e.target.checked)} />
+          <span>SPEAK ANSWER</span>
+        </label>
+      </div>
+
+      <div className="flex-1 overflow-y-auto scrollbar-hide p-4 space-y-4">
+        {thoughts === null && answer === null && (
+          <div className="py-12 text-center text-xs text-gray-500 font-mono tracking-widest uppercase">
+            Deep reasoning core ready. Pose a planning or debugging problem, Sir.
+          </div>
+        )}
+        {thoughts !== null && <ThinkingWidget thoughts={thoughts} isActive={isBusy && !answer} />}
+        {answer && (
+          <div>
+            <div className="text-[10px] text-gray-500 font-mono uppercase tracking-widest mb-1">JARVIS CONCLUSION</div>
+            <div className="whitespace-pre-wrap text-lg leading-relaxed text-jarvis-cyan font-sans">{answer}</div>
+          </div>
+        )}
+      </div>
+
+      <form onSubmit={submit} className="flex border-t border-jarvis-cyan/20">
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Describe the problem..."
+          className="flex-1 bg-transparent px-4 py-3 text-white font-sans text-lg outline-none placeholder:text-gray-600"
+        />
+        <button
+          type="submit"
+          disabled={isBusy || !draft.trim()}
+          className="px-6 text-xs font-bold tracking-widest border-l border-jarvis-cyan/20 text-purple-300 hover:bg-purple-500/10 disabled:text-gray-600 disabled:hover:bg-transparent uppercase"
+        >
+          {isBusy ? 'Reasoning' : 'Analyze'}
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -1,6 +1,42 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
+
+interface Props {
+  // When provided, the widget expands into a streaming thought log
+  thoughts?: string;
+  isActive?: boolean;
+}
+
+export const ThinkingWidget: React.FC<Props> = ({ thoughts, isActive = true }) => {
+  const logRef = useRef<HTMLDivElement>(null);
+
+  // Follow the newest thought
+  useEffect(() => {
+    const el = logRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [thoughts]);
+
+  if (thoughts !== undefined) {
+    return (
+      <div className="w-full flex flex-col border border-purple-500/40 rounded-lg bg-purple-900/10 overflow-hidden">
+        <div className="flex items-center justify-between px-4 py-2 border-b border-purple-500/30">
+          <span className={`text-[10px] tracking-[0.2em] text-purple-300 font-mono ${isActive ? 'animate-pulse' : ''}`}>
+            {isActive ? 'REASONING IN PROGRESS' : 'REASONING TRACE'}
+          </span>
+          {isActive && (
+            <div className="flex space-x-1">
+              <div className="w-1 h-3 bg-purple-400 animate-[bounce_1s_infinite]"></div>
+              <div className="w-1 h-3 bg-cyan-400 animate-[bounce_1s_infinite_0.2s]"></div>
+              <div className="w-1 h-3 bg-purple-400 animate-[bounce_1s_infinite_0.4s]"></div>
+            </div>
+          )}
+        </div>
+        <div ref={logRef} className="max-h-56 overflow-y-auto scrollbar-hide px-4 py-3 text-sm text-purple-200/80 font-sans whitespace-pre-wrap leading-relaxed">
+          {thoughts || 'Decomposing the problem...'}
+        </div>
+      </div>
+    );
+  }
 
-export const ThinkingWidget: React.FC = () => {
   return (
     <div className="w-full h-full flex items-center justify-center relative">
       {/* Background Glow */}
@@ -8,7 +44,7 @@ export const ThinkingWidget: React.FC = () => {
 
       {/* Rotating Outer Ring */}
       <div className="absolute inset-2 border-t-2 border-r-2 border-purple-400/50 rounded-full animate-spin-slow"></div>
-      
+
       {/* Counter-Rotating Inner Ring */}
       <div className="absolute inset-8 border-b-2 border-l-2 border-cyan-400/50 rounded-full animate-[spin_2s_linear_infinite_reverse]"></div>
 
@@ -23,4 +59,4 @@ export const ThinkingWidget: React.FC = () => {
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
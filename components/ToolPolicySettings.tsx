@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { PolicyConfig, PolicyStore, ToolMode, ToolRule } from '../services/toolPolicy';
+import { toolRegistry } from '../services/tools';
+
+const inputClass = "w-full bg-black/40 border border-gray-700 focus:border-jarvis-cyan rounded px-2 py-1 text-white outline-none font-mono text-xs";
+const labelClass = "block text-[10px] font-mono tracking-widest text-gray-500 mb-1";
+
+const MODES: ToolMode[] = ['allow', 'confirm', 'deny'];
+
+const parseHosts = (value: string) => value.split(/[\s,]+/).map(h => h.trim().toLowerCase()).filter(Boolean);
+
+// Per-tool rules: run freely, ask first, or never run; URL tools also get host lists
+export const ToolPolicySettings: React.FC = () => {
+  const [config, setConfig] = useState<PolicyConfig>(() => PolicyStore.load());
+  const tools = toolRegistry.declarations().map(d => d.name);
+
+  const update = (tool: string, patch: Partial<ToolRule>) => {
+    const next = { rules: { ...config.rules, [tool]: { ...PolicyStore.ruleFor(tool, config), ...patch } } };
+    PolicyStore.save(next);
+    setConfig(next);
+  };
+
+  return (
+    <div className="pt-4 border-t border-jarvis-cyan/10 space-y-3">
+      <label className={labelClass}>TOOL POLICY</label>
+      {tools.map(name => {
+        const rule = PolicyStore.ruleFor(name, config);
+        const opensUrls = !!toolRegistry.get(name)?.targetUrl;
+        return (
+          <div key={name} className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-mono text-gray-300">{name}</span>
+              <div className="flex space-x-1 text-[10px] font-mono tracking-widest">
+                {MODES.map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => update(name, { mode })}
+                    className={`px-2 py-0.5 border rounded ${rule.mode === mode
+                      ? mode === 'deny' ? 'border-red-500 text-red-400' : mode === 'confirm' ? 'border-yellow-500 text-yellow-400' : 'border-jarvis-cyan text-jarvis-cyan'
+                      : 'border-gray-800 text-gray-600 hover:text-gray-400'}`}
+                  >
+                    {mode.toUpperCase()}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {opensUrls && rule.mode !== 'deny' && (
+              <div className="grid grid-cols-2 gap-2 pl-2">
+                <div>
+                  <label className={labelClass}>ALLOW HOSTS</label>
+                  <input
+                    defaultValue={rule.allowHosts.join(', ')}
+                    onBlur={(e) => update(name, { allowHosts: parseHosts(e.target.value) })}
+                    placeholder="any"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>DENY HOSTS</label>
+                  <input
+                    defaultValue={rule.denyHosts.join(', ')}
+                    onBlur={(e) => update(name, { denyHosts: parseHosts(e.target.value) })}
+                    placeholder="none"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <div className="text-[10px] font-mono text-gray-600 tracking-widest">
+        ONLY HTTP AND HTTPS LINKS ARE EVER OPENED. HOSTS MATCH THEIR SUBDOMAINS.
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { startFrameStream } from '../services/videoUtils';
+
+interface Props {
+  isStreaming: boolean;
+  onFrame: (base64Jpeg: string) => void;
+  onError: (error: Error) => void;
+}
+
+const FPS_OPTIONS = [0.5, 1, 2];
+const RESOLUTION_OPTIONS = [320, 640, 1024];
+
+export const VisionPreview: React.FC<Props> = ({ isStreaming, onFrame, onError }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onFrameRef = useRef(onFrame);
+  const [isCameraReady, setIsCameraReady] = useState(false);
+  const [fps, setFps] = useState(1);
+  const [maxWidth, setMaxWidth] = useState(640);
+
+  onFrameRef.current = onFrame;
+
+  // Camera lifetime follows the component (mounted only in VISION mode)
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(t => t.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) {
+          videoRef.current.srcObject = s;
+          videoRef.current.play().catch(() => { /* autoplay handled by muted attr */ });
+        }
+        setIsCameraReady(true);
+      })
+      .catch(err => onError(err));
+
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(t => t.stop());
+      setIsCameraReady(false);
+    };
+  }, []);
+
+  // Frame uplink, restarted whenever the rate or resolution changes
+  useEffect(() => {
+    if (!isStreaming || !isCameraReady || !videoRef.current) return;
+    return startFrameStream(videoRef.current, { fps, maxWidth }, (frame) => onFrameRef.current(frame));
+  }, [isStreaming, isCameraReady, fps, maxWidth]);
+
+  return (
+    <div className="glass-panel rounded-lg overflow-hidden w-64">
+      <div className="flex justify-between items-center px-3 py-1 text-[10px] font-mono tracking-widest">
+        <span className="text-gray-400">OPTICAL FEED</span>
+        <span className={isStreaming && isCameraReady ? 'text-green-400 animate-pulse' : 'text-gray-600'}>
+          {isStreaming && isCameraReady ? `● TX ${fps} FPS` : 'STANDBY'}
+        </span>
+      </div>
+      <video ref={videoRef} muted playsInline className="w-full aspect-video bg-black object-cover" />
+      <div className="flex justify-between px-3 py-2 text-[10px] font-mono">
+        <select
+          value={fps}
+          onChange={(e) => setFps(Number(e.target.value))}
+          className="bg-black border border-gray-700 text-jarvis-cyan rounded px-1"
+        >
+          {FPS_OPTIONS.map(f => <option key={f} value={f}>{f} FPS</option>)}
+        </select>
+        <select
+          value={maxWidth}
+          onChange={(e) => setMaxWidth(Number(e.target.value))}
+          className="bg-black border border-gray-700 text-jarvis-cyan rounded px-1"
+        >
+          {RESOLUTION_OPTIONS.map(w => <option key={w} value={w}>{w}px</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
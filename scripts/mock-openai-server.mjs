@@ -0,0 +1,109 @@
+// Dependency-free stand-in for an OpenAI-compatible server, for exercising the `openai` backend locally.
+// Usage: npm run mock:openai [-- port]   then set the backend base URL to http://localhost:<port>/v1
+
+import { createServer } from 'node:http';
+
+const PORT = Number(process.argv[2] || process.env.PORT || 8787);
+const SPEECH_RATE = 24000;
+// 1x1 transparent PNG
+const PIXEL_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=';
+
+const textOf = (content) =>
+  typeof content === 'string' ? content : (content || []).filter(p => p.type === 'text').map(p => p.text).join(' ');
+
+// Asks for the time when the user mentions it and the tool is offered, otherwise echoes
+function reply({ messages = [], tools = [] }) {
+  const last = messages[messages.length - 1] || {};
+  if (last.role === 'tool') {
+    return { content: `Tool result received: ${last.content}` };
+  }
+  const text = textOf(last.content);
+  const offersTime = tools.some(t => t.function?.name === 'getCurrentTime');
+  if (offersTime && /\btime\b/i.test(text)) {
+    return {
+      content: null,
+      tool_calls: [{ id: `call_${Date.now()}`, type: 'function', function: { name: 'getCurrentTime', arguments: '{}' } }],
+    };
+  }
+  return { content: `Mock reply to: ${text || '(empty)'}` };
+}
+
+function streamReply(res, model, message) {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+  const send = (delta) => res.write(`data: ${JSON.stringify({ object: 'chat.completion.chunk', model, choices: [{ index: 0, delta }] })}\n\n`);
+  send({ role: 'assistant', reasoning_content: 'Considering the request. ' });
+  for (const word of (message.content || '').split(/(?<= )/)) send({ content: word });
+  (message.tool_calls || []).forEach((call, index) => send({ tool_calls: [{ index, ...call }] }));
+  res.end('data: [DONE]\n\n');
+}
+
+// Soft sine tone whose length follows the text, as 16-bit little-endian PCM
+function speech(text) {
+  const samples = Math.min(SPEECH_RATE * 5, Math.max(SPEECH_RATE / 2, text.length * 1200));
+  const pcm = Buffer.alloc(samples * 2);
+  for (let i = 0; i < samples; i++) {
+    pcm.writeInt16LE(Math.round(Math.sin((2 * Math.PI * 220 * i) / SPEECH_RATE) * 3000), i * 2);
+  }
+  return pcm;
+}
+
+const readBody = (req) => new Promise((resolve, reject) => {
+  const chunks = [];
+  req.on('data', c => chunks.push(c));
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const json = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') return res.end();
+
+  const path = new URL(req.url, 'http://localhost').pathname.replace(/^\/v1/, '');
+
+  try {
+    const body = await readBody(req);
+    console.log(`${req.method} ${path} (${body.length} bytes)`);
+    // Every model name is served
+    if (path.startsWith('/models/')) {
+      return json(res, 200, { id: decodeURIComponent(path.slice('/models/'.length)), object: 'model' });
+    }
+    switch (path) {
+      case '/models':
+        return json(res, 200, { object: 'list', data: [{ id: 'mock-chat', object: 'model' }] });
+      case '/chat/completions': {
+        const request = JSON.parse(body.toString() || '{}');
+        const message = reply(request);
+        if (request.stream) return streamReply(res, request.model, message);
+        return json(res, 200, {
+          object: 'chat.completion',
+          model: request.model,
+          choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: message.tool_calls ? 'tool_calls' : 'stop' }],
+        });
+      }
+      case '/audio/transcriptions':
+        return json(res, 200, { text: 'What time is it?' });
+      case '/audio/speech': {
+        const { input = '' } = JSON.parse(body.toString() || '{}');
+        res.writeHead(200, { 'Content-Type': 'audio/pcm' });
+        return res.end(speech(input));
+      }
+      case '/images/generations':
+      case '/images/edits':
+        return json(res, 200, { created: Math.floor(Date.now() / 1000), data: [{ b64_json: PIXEL_PNG }] });
+      default:
+        return json(res, 404, { error: { message: `Unknown endpoint ${path}` } });
+    }
+  } catch (e) {
+    return json(res, 400, { error: { message: String(e) } });
+  }
+});
+
+// Port 0 picks a free one; the log line reports it
+server.listen(PORT, () => console.log(`Mock OpenAI-compatible server on http://localhost:${server.address().port}/v1`));
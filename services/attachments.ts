@@ -0,0 +1,94 @@
+// Files shared with JARVIS as conversation context: validation, decoding and model parts
+
+import { Part } from "@google/genai";
+import { Attachment } from "../types";
+import { arrayBufferToBase64 } from "./audioUtils";
+
+// Inline request data is capped by the API; stay well under it
+export const MAX_ATTACHMENT_BYTES = 15 * 1024 * 1024;
+// Live sessions have a much smaller context window than chat
+const LIVE_TEXT_LIMIT = 40000;
+
+// Browsers often leave `type` empty for Markdown and CSV, so the extension decides
+const TYPES_BY_EXTENSION: Record<string, string> = {
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  text: 'text/plain',
+  log: 'text/plain',
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+const SUPPORTED_TYPES = new Set(Object.values(TYPES_BY_EXTENSION));
+
+// For <input accept>
+export const ATTACHMENT_ACCEPT = Object.keys(TYPES_BY_EXTENSION).map(ext => `.${ext}`).join(',');
+
+export const isTextAttachment = (a: Pick<Attachment, 'mimeType'>) => a.mimeType.startsWith('text/');
+export const isImageAttachment = (a: Pick<Attachment, 'mimeType'>) => a.mimeType.startsWith('image/');
+
+export const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(0)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+function detectType(file: File): string | null {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  const type = TYPES_BY_EXTENSION[ext] || file.type;
+  return SUPPORTED_TYPES.has(type) ? type : null;
+}
+
+// Throws with a message fit for the HUD when the file can't be used
+export async function readAttachment(file: File): Promise<Attachment> {
+  const mimeType = detectType(file);
+  if (!mimeType) throw new Error(`${file.name}: only PDF, text, Markdown, CSV and images are supported`);
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    throw new Error(`${file.name} is ${formatSize(file.size)}; the limit is ${formatSize(MAX_ATTACHMENT_BYTES)}`);
+  }
+  const buffer = await file.arrayBuffer();
+  return {
+    id: crypto.randomUUID(),
+    name: file.name,
+    mimeType,
+    size: file.size,
+    data: arrayBufferToBase64(buffer),
+    text: mimeType.startsWith('text/') ? new TextDecoder().decode(buffer) : undefined,
+  };
+}
+
+const header = (a: Attachment) => `[Attached file: ${a.name} (${a.mimeType})]`;
+
+// Chat models take documents and images inline; text files go in as plain text
+export function attachmentParts(attachments: Attachment[] = []): Part[] {
+  return attachments.flatMap((a): Part[] => isTextAttachment(a)
+    ? [{ text: `${header(a)}\n${a.text ?? ''}` }]
+    : [{ text: header(a) }, { inlineData: { mimeType: a.mimeType, data: a.data } }]
+  );
+}
+
+// Earlier turns only name their files; the contents went out once, with the turn that shared them
+export function attachmentPlaceholders(attachments: Attachment[] = []): Part[] {
+  return attachments.map(a => ({ text: `${header(a)} [shared earlier; contents not repeated]` }));
+}
+
+// Live sessions get text (PDFs via their extracted text) and images, trimmed to fit
+export function liveContextParts(attachments: Attachment[]): Part[] {
+  const parts: Part[] = [{
+    text: "The user shared these files as context. Don't reply now; use them to answer their next questions.",
+  }];
+  for (const a of attachments) {
+    if (isImageAttachment(a)) {
+      parts.push({ text: header(a) }, { inlineData: { mimeType: a.mimeType, data: a.data } });
+    } else if (a.text !== undefined) {
+      const text = a.text.length > LIVE_TEXT_LIMIT ? `${a.text.slice(0, LIVE_TEXT_LIMIT)}\n[... truncated]` : a.text;
+      parts.push({ text: `${header(a)}\n${text}` });
+    } else {
+      parts.push({ text: `${header(a)}\n[Contents unavailable in voice mode; ask the user to use the text channel.]` });
+    }
+  }
+  return parts;
+}
@@ -0,0 +1,106 @@
+// Microphone capture via AudioWorklet, delivering 16 kHz mono PCM chunks
+
+import { createResampler } from "./audioUtils";
+
+export interface AudioCaptureOptions {
+  // Chunk duration sent upstream; smaller chunks mean lower latency
+  chunkMs?: number;
+  targetRate?: number;
+}
+
+export interface AudioCapture {
+  disconnect: () => void;
+}
+
+const PROCESSOR_NAME = 'jarvis-pcm-capture';
+
+// Inlined so it loads without a separate bundled asset
+const PROCESSOR_SOURCE = `
+class JarvisPcmCapture extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.chunkSize = options.processorOptions.chunkSize;
+    this.buffer = new Float32Array(this.chunkSize);
+    this.offset = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    let read = 0;
+    while (read < channel.length) {
+      const n = Math.min(channel.length - read, this.chunkSize - this.offset);
+      this.buffer.set(channel.subarray(read, read + n), this.offset);
+      this.offset += n;
+      read += n;
+      if (this.offset === this.chunkSize) {
+        this.port.postMessage(this.buffer, [this.buffer.buffer]);
+        this.buffer = new Float32Array(this.chunkSize);
+        this.offset = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('${PROCESSOR_NAME}', JarvisPcmCapture);
+`;
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+async function ensureProcessor(ctx: AudioContext) {
+  if (loadedContexts.has(ctx)) return;
+  const url = URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' }));
+  try {
+    await ctx.audioWorklet.addModule(url);
+    loadedContexts.add(ctx);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export async function createAudioCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  onChunk: (pcm: Float32Array) => void,
+  options: AudioCaptureOptions = {}
+): Promise<AudioCapture> {
+  if (!ctx.audioWorklet) {
+    throw new Error("AudioWorklet capture is not supported in this browser.");
+  }
+  await ensureProcessor(ctx);
+
+  const chunkMs = options.chunkMs ?? 40;
+  const targetRate = options.targetRate ?? 16000;
+  const chunkSize = Math.max(128, Math.round(ctx.sampleRate * chunkMs / 1000));
+  const resampler = createResampler(ctx.sampleRate, targetRate);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { chunkSize }
+  });
+  // Keep the node pulled by the graph without making it audible
+  const sink = ctx.createGain();
+  sink.gain.value = 0;
+
+  node.port.onmessage = (e: MessageEvent<Float32Array>) => {
+    const pcm = resampler.process(e.data);
+    if (pcm.length) onChunk(pcm);
+  };
+
+  source.connect(node);
+  node.connect(sink);
+  sink.connect(ctx.destination);
+
+  return {
+    disconnect: () => {
+      node.port.onmessage = null;
+      source.disconnect();
+      node.disconnect();
+      sink.disconnect();
+    }
+  };
+}
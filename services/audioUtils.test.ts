@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createResampler } from './audioUtils';
+
+const tone = (frequency: number, sampleRate: number, length: number) =>
+  Float32Array.from({ length }, (_, i) => Math.sin(2 * Math.PI * frequency * i / sampleRate));
+
+const rms = (samples: Float32Array) => Math.sqrt(samples.reduce((sum, v) => sum + v * v, 0) / samples.length);
+
+// Skips the filter's start-up and tail so only steady-state output is measured
+const steady = (samples: Float32Array, margin = 64) => samples.subarray(margin, samples.length - margin);
+
+describe('createResampler', () => {
+  it('keeps DC at unity gain', () => {
+    const out = createResampler(48000, 16000).process(new Float32Array(4800).fill(1));
+    for (const v of steady(out)) expect(v).toBeCloseTo(1, 3);
+  });
+
+  it('passes a speech-band tone at close to unity gain', () => {
+    const input = tone(1000, 48000, 48000);
+    const out = createResampler(48000, 16000).process(input);
+    expect(Math.abs(rms(steady(out)) / rms(input) - 1)).toBeLessThan(0.02);
+  });
+
+  it('strongly attenuates a tone above 8 kHz when going from 48 kHz to 16 kHz', () => {
+    const input = tone(12000, 48000, 48000);
+    const out = createResampler(48000, 16000).process(input);
+    const gainDb = 20 * Math.log10(rms(steady(out)) / rms(input));
+    expect(gainDb).toBeLessThan(-40);
+  });
+
+  it('produces the same output whether input arrives whole or across chunk boundaries', () => {
+    const input = tone(440, 48000, 9600);
+    const whole = createResampler(48000, 16000).process(input);
+
+    const chunked = createResampler(48000, 16000);
+    const pieces: Float32Array[] = [];
+    const sizes = [1, 127, 128, 333, 2, 1000, 17];
+    for (let offset = 0, i = 0; offset < input.length; i++) {
+      const size = sizes[i % sizes.length];
+      pieces.push(chunked.process(input.subarray(offset, offset + size)));
+      offset += size;
+    }
+    const joined = Float32Array.from(pieces.flatMap(p => Array.from(p)));
+
+    expect(joined.length).toBe(whole.length);
+    // A third of the input, less what is still held back for the filter's look-ahead
+    expect(whole.length).toBeGreaterThan(input.length / 3 - 32);
+    expect(whole.length).toBeLessThanOrEqual(input.length / 3);
+    joined.forEach((v, i) => expect(v).toBeCloseTo(whole[i], 5));
+  });
+
+  it('reset() clears carried-over history', () => {
+    const resampler = createResampler(48000, 16000);
+    resampler.process(new Float32Array(4800).fill(1));
+    resampler.reset();
+
+    const silence = resampler.process(new Float32Array(4800));
+    expect(silence.every(v => v === 0)).toBe(true);
+
+    const input = tone(440, 48000, 4800);
+    resampler.reset();
+    const fresh = createResampler(48000, 16000).process(input);
+    expect(Array.from(resampler.process(input))).toEqual(Array.from(fresh));
+  });
+
+  it('copies input through unchanged when the rates match', () => {
+    const input = tone(440, 16000, 160);
+    const out = createResampler(16000, 16000).process(input);
+    expect(out).not.toBe(input);
+    expect(Array.from(out)).toEqual(Array.from(input));
+  });
+});
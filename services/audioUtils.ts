@@ -39,16 +39,85 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export function downsampleBuffer(buffer: Float32Array, inputRate: number, outputRate: number = 16000): Float32Array {
-  if (inputRate === outputRate) return buffer;
-  if (inputRate < outputRate) return buffer;
-  const compression = inputRate / outputRate;
-  const length = Math.floor(buffer.length / compression);
-  const result = new Float32Array(length);
-  for (let i = 0; i < length; i++) {
-    result[i] = buffer[Math.floor(i * compression)];
+export interface Resampler {
+  process(input: Float32Array): Float32Array;
+  reset(): void;
+}
+
+// Number of precomputed fractional phases for the polyphase filter bank
+const RESAMPLER_PHASES = 256;
+
+function buildSincTable(taps: number, cutoff: number): Float32Array[] {
+  const half = taps / 2;
+  const table: Float32Array[] = [];
+  for (let p = 0; p <= RESAMPLER_PHASES; p++) {
+    const frac = p / RESAMPLER_PHASES;
+    const row = new Float32Array(taps);
+    let sum = 0;
+    for (let k = 0; k < taps; k++) {
+      // Distance from the output instant to input sample (floor(t) - half + 1 + k)
+      const x = k - half + 1 - frac;
+      const sinc = x === 0 ? 1 : Math.sin(Math.PI * cutoff * x) / (Math.PI * cutoff * x);
+      // Blackman window over [-half, half]
+      const w = 0.42 + 0.5 * Math.cos(Math.PI * x / half) + 0.08 * Math.cos(2 * Math.PI * x / half);
+      row[k] = Math.abs(x) >= half ? 0 : sinc * w;
+      sum += row[k];
+    }
+    // Normalise for unity DC gain at every phase
+    for (let k = 0; k < taps; k++) row[k] /= sum;
+    table.push(row);
   }
-  return result;
+  return table;
+}
+
+/**
+ * Streaming windowed-sinc (polyphase) resampler. The low-pass cutoff sits just
+ * below the lower Nyquist frequency, so downsampling a 48 kHz microphone to
+ * 16 kHz does not fold high frequencies back into the speech band. State is
+ * carried between calls, so chunks can be fed in as they arrive.
+ */
+export function createResampler(inputRate: number, outputRate: number, taps: number = 64): Resampler {
+  const half = taps / 2;
+  const step = inputRate / outputRate;
+  const cutoff = 0.95 * Math.min(1, outputRate / inputRate);
+  const table = inputRate === outputRate ? [] : buildSincTable(taps, cutoff);
+
+  let history = new Float32Array(half);
+  let position = half;
+
+  return {
+    process(input: Float32Array): Float32Array {
+      if (inputRate === outputRate) return input.slice();
+
+      const buffer = new Float32Array(history.length + input.length);
+      buffer.set(history);
+      buffer.set(input, history.length);
+
+      const output: number[] = [];
+      while (Math.floor(position) + half < buffer.length) {
+        const base = Math.floor(position);
+        const row = table[Math.round((position - base) * RESAMPLER_PHASES)];
+        const start = base - half + 1;
+        let acc = 0;
+        for (let k = 0; k < taps; k++) {
+          acc += buffer[start + k] * row[k];
+        }
+        output.push(acc);
+        position += step;
+      }
+
+      // Keep just enough input to centre the filter on the next output
+      const keepFrom = Math.max(0, Math.floor(position) - half + 1);
+      history = buffer.slice(keepFrom);
+      position -= keepFrom;
+      return Float32Array.from(output);
+    },
+
+    reset() {
+      history = new Float32Array(half);
+      position = half;
+    }
+  };
 }
 
 export function createPcmBlob(data: Float32Array): { data: string; mimeType: string } {
@@ -61,4 +130,58 @@ export function createPcmBlob(data: Float32Array): { data: string; mimeType: str
     data: arrayBufferToBase64(int16.buffer),
     mimeType: 'audio/pcm;rate=16000',
   };
-}
\ No newline at end of file
+}
+// Inverse of createPcmBlob: base64 16-bit little-endian PCM to floats
+export function pcm16ToFloat32(base64: string): Float32Array {
+  const bytes = base64ToUint8Array(base64);
+  const int16 = new Int16Array(bytes.buffer, bytes.byteOffset, Math.floor(bytes.byteLength / 2));
+  const out = new Float32Array(int16.length);
+  for (let i = 0; i < int16.length; i++) out[i] = int16[i] / 32768;
+  return out;
+}
+
+// Mono 16-bit WAV file, for speech-to-text uploads
+export function encodeWav(samples: Float32Array, sampleRate: number): Blob {
+  const view = new DataView(new ArrayBuffer(44 + samples.length * 2));
+  const writeString = (offset: number, s: string) => {
+    for (let i = 0; i < s.length; i++) view.setUint8(offset + i, s.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + samples.length * 2, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, 1, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true);
+  view.setUint16(32, 2, true);
+  view.setUint16(34, 16, true);
+  writeString(36, 'data');
+  view.setUint32(40, samples.length * 2, true);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(44 + i * 2, Math.max(-1, Math.min(1, samples[i])) * 32767, true);
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+}
+
+// AudioContext.setSinkId ships in Chromium only; elsewhere audio stays on the system default
+export const canSelectOutputDevice = () => typeof AudioContext !== 'undefined' && 'setSinkId' in AudioContext.prototype;
+
+export async function selectOutputDevice(ctx: AudioContext, deviceId: string): Promise<void> {
+  if (!canSelectOutputDevice()) return;
+  await (ctx as any).setSinkId(deviceId);
+}
+
+// Microphone stream for the chosen input ('' = system default); processing off gives the raw signal
+export function openMicrophone(deviceId: string, processing = true): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({
+    audio: {
+      ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+      echoCancellation: processing,
+      noiseSuppression: processing,
+      autoGainControl: processing,
+      channelCount: 1,
+    },
+  });
+}
@@ -0,0 +1,32 @@
+// Rolling interpreter captions built from the live transcription streams
+
+export interface CaptionLine {
+  id: string;
+  // What was heard, and what JARVIS said for it
+  original: string;
+  translation: string;
+  done: boolean;
+}
+
+const MAX_CAPTION_LINES = 50;
+
+const newLine = (original: string, translation: string, done: boolean): CaptionLine =>
+  ({ id: crypto.randomUUID(), original, translation, done });
+
+// Folds a transcription update into the list; speech after a translation has started opens a new line
+export function applyCaption(lines: CaptionLine[], role: 'user' | 'model', text: string, final = false): CaptionLine[] {
+  const last = lines[lines.length - 1];
+  const open = last && !last.done ? last : null;
+  const settled = open ? lines.slice(0, -1) : lines;
+  let next: CaptionLine[];
+  if (role === 'user') {
+    next = open && !open.translation
+      ? [...settled, { ...open, original: text }]
+      : [...settled, ...(open ? [{ ...open, done: true }] : []), newLine(text, '', false)];
+  } else {
+    next = open
+      ? [...settled, { ...open, translation: text, done: final }]
+      : [...settled, newLine('', text, final)];
+  }
+  return next.slice(-MAX_CAPTION_LINES);
+}
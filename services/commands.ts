@@ -0,0 +1,161 @@
+// Keyboard path to the tools: command palette history, hotkey bindings and fuzzy matching
+
+import { Schema, Type } from "@google/genai";
+
+export interface CommandInvocation {
+  tool: string;
+  args: Record<string, unknown>;
+}
+
+export interface RecentCommand extends CommandInvocation {
+  at: number;
+}
+
+export interface HotkeyBinding extends CommandInvocation {
+  id: string;
+  // Normalised combo, e.g. "Alt+Shift+L"
+  combo: string;
+}
+
+const RECENT_KEY = 'jarvis.recentCommands';
+const HOTKEYS_KEY = 'jarvis.hotkeys';
+const RECENT_LIMIT = 20;
+
+export const DEFAULT_HOTKEYS: HotkeyBinding[] = [
+  { id: 'lock', combo: 'Alt+Shift+L', tool: 'lockSystem', args: {} },
+  { id: 'media-play', combo: 'Alt+Shift+P', tool: 'controlMedia', args: { action: 'play' } },
+  { id: 'media-pause', combo: 'Alt+Shift+O', tool: 'controlMedia', args: { action: 'pause' } },
+  { id: 'media-next', combo: 'Alt+Shift+N', tool: 'controlMedia', args: { action: 'next' } },
+  { id: 'scroll-stop', combo: 'Alt+Shift+S', tool: 'scrollPage', args: { action: 'stop' } },
+];
+
+const sameInvocation = (a: CommandInvocation, b: CommandInvocation) =>
+  a.tool === b.tool && JSON.stringify(a.args) === JSON.stringify(b.args);
+
+function readList<T>(key: string): T[] | null {
+  try {
+    const raw = localStorage.getItem(key);
+    if (raw) {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) return parsed as T[];
+    }
+  } catch (e) {
+    console.error(`${key} corrupted, ignoring`, e);
+  }
+  return null;
+}
+
+// Successful tool runs from any source (voice, chat, palette, hotkeys), newest first
+export const CommandHistory = {
+  list(): RecentCommand[] {
+    return readList<RecentCommand>(RECENT_KEY) || [];
+  },
+
+  add(invocation: CommandInvocation) {
+    const entry: RecentCommand = { tool: invocation.tool, args: invocation.args ?? {}, at: Date.now() };
+    const rest = CommandHistory.list().filter(r => !sameInvocation(r, entry));
+    localStorage.setItem(RECENT_KEY, JSON.stringify([entry, ...rest].slice(0, RECENT_LIMIT)));
+  },
+
+  clear() {
+    localStorage.removeItem(RECENT_KEY);
+  },
+};
+
+export const HotkeyStore = {
+  load(): HotkeyBinding[] {
+    return readList<HotkeyBinding>(HOTKEYS_KEY) || DEFAULT_HOTKEYS;
+  },
+
+  save(bindings: HotkeyBinding[]) {
+    localStorage.setItem(HOTKEYS_KEY, JSON.stringify(bindings));
+  },
+
+  // A combo maps to one command; binding it again replaces the old one
+  bind(combo: string, invocation: CommandInvocation): HotkeyBinding[] {
+    const binding: HotkeyBinding = { id: crypto.randomUUID(), combo, tool: invocation.tool, args: invocation.args };
+    const next = [...HotkeyStore.load().filter(b => b.combo !== combo), binding];
+    HotkeyStore.save(next);
+    return next;
+  },
+
+  find(combo: string): HotkeyBinding | undefined {
+    return HotkeyStore.load().find(b => b.combo === combo);
+  },
+};
+
+const MODIFIER_CODES = /^(Control|Shift|Alt|Meta|OS)(Left|Right)?$/;
+
+// Combo string for a key event, or null while only modifiers are held.
+// Uses KeyboardEvent.code so Alt/Option combos are layout-independent.
+export function comboFromEvent(e: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string | null {
+  if (MODIFIER_CODES.test(e.code)) return null;
+  const key = e.code.replace(/^Key/, '').replace(/^Digit/, '');
+  const parts = [e.ctrlKey && 'Ctrl', e.altKey && 'Alt', e.shiftKey && 'Shift', e.metaKey && 'Meta', key];
+  return parts.filter(Boolean).join('+');
+}
+
+// Bare keys would fire while typing or clash with push-to-talk, so bindings need a modifier (F-keys excepted)
+export function isBindableCombo(combo: string): boolean {
+  return combo.includes('+') || /^F\d{1,2}$/.test(combo);
+}
+
+export const isPaletteShortcut = (e: KeyboardEvent) => (e.ctrlKey || e.metaKey) && !e.altKey && !e.shiftKey && e.code === 'KeyK';
+
+export const isTypingTarget = (target: EventTarget | null) => {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.tagName === 'SELECT' || el.isContentEditable);
+};
+
+// "controlMedia" -> "Control Media"
+export const toolTitle = (name: string) =>
+  name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+
+export function describeInvocation({ tool, args }: CommandInvocation): string {
+  const parts = Object.entries(args || {})
+    .filter(([, v]) => v !== undefined && v !== '')
+    .map(([k, v]) => `${k}: ${typeof v === 'string' ? v : JSON.stringify(v)}`);
+  return parts.length ? `${toolTitle(tool)} — ${parts.join(', ')}` : toolTitle(tool);
+}
+
+// Subsequence match with bonuses for consecutive characters and word starts; null when not matched
+export function fuzzyScore(query: string, text: string): number | null {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let streak = 0;
+  let from = 0;
+  for (const ch of q) {
+    if (ch === ' ') continue;
+    const at = t.indexOf(ch, from);
+    if (at === -1) return null;
+    streak = at === from ? streak + 1 : 0;
+    const wordStart = at === 0 || /[\s\-_:,—]/.test(t[at - 1]) || (text[at] !== t[at] && text[at - 1] === t[at - 1]);
+    score += 1 + streak * 2 + (wordStart ? 3 : 0) - Math.min(at - from, 5) * 0.1;
+    from = at + 1;
+  }
+  // Shorter targets win ties
+  return score - t.length * 0.01;
+}
+
+// Form values typed in the palette -> tool arguments; empty optional fields are left out
+export function parseArgValue(schema: Schema, raw: string): unknown {
+  if (raw.trim() === '') return undefined;
+  switch (schema.type) {
+    case Type.NUMBER:
+    case Type.INTEGER:
+      return Number(raw);
+    case Type.BOOLEAN:
+      return raw === 'true';
+    case Type.ARRAY:
+    case Type.OBJECT:
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return raw;
+      }
+    default:
+      return raw;
+  }
+}
@@ -0,0 +1,68 @@
+import { Message } from "../types";
+import { STORES, requestToPromise, withStore } from "./db";
+
+export const ConversationStore = {
+  async loadAll(): Promise<Message[]> {
+    try {
+      const messages = await withStore(STORES.messages, 'readonly', store =>
+        requestToPromise(store.index('timestamp').getAll() as IDBRequest<Message[]>)
+      );
+      return messages;
+    } catch (e) {
+      console.error("Conversation log unavailable", e);
+      return [];
+    }
+  },
+
+  async append(message: Message): Promise<void> {
+    try {
+      await withStore(STORES.messages, 'readwrite', store => requestToPromise(store.put(message)));
+    } catch (e) {
+      console.error("Failed to persist message", e);
+    }
+  },
+
+  async clear(): Promise<void> {
+    await withStore(STORES.messages, 'readwrite', store => requestToPromise(store.clear()));
+  },
+
+  // Case-insensitive full-text match over content, tool names and arguments
+  search(messages: Message[], query: string): Message[] {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    if (terms.length === 0) return messages;
+    return messages.filter(m => {
+      const haystack = [
+        m.content,
+        m.toolCall ? `${m.toolCall.name} ${JSON.stringify(m.toolCall.args)} ${JSON.stringify(m.toolCall.result)}` : '',
+        ...(m.groundingUrls || []).map(u => u.title),
+        ...(m.attachments || []).map(a => a.name),
+      ].join(' ').toLowerCase();
+      return terms.every(t => haystack.includes(t));
+    });
+  },
+
+  toMarkdown(messages: Message[]): string {
+    const lines = ['# JARVIS Conversation Log', ''];
+    for (const m of messages) {
+      const who = m.role === 'user' ? 'You' : m.role === 'model' ? (m.isThinking ? 'JARVIS (reasoning)' : 'JARVIS') : 'System';
+      lines.push(`### ${who} — ${m.timestamp.toLocaleString()}`);
+      if (m.toolCall) {
+        lines.push(`Tool \`${m.toolCall.name}\``, '', '```json', JSON.stringify({ args: m.toolCall.args, result: m.toolCall.result }, null, 2), '```');
+      } else {
+        lines.push(m.isThinking ? m.content.split('\n').map(l => `> ${l}`).join('\n') : m.content);
+      }
+      for (const a of m.attachments || []) {
+        lines.push(`- Attachment: ${a.name} (${a.mimeType})`);
+      }
+      for (const u of m.groundingUrls || []) {
+        lines.push(`- [${u.title}](${u.uri})`);
+      }
+      lines.push('');
+    }
+    return lines.join('\n');
+  },
+
+  toJson(messages: Message[]): string {
+    return JSON.stringify(messages, null, 2);
+  }
+};
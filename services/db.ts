@@ -0,0 +1,80 @@
+// Shared IndexedDB access for locally persisted JARVIS data
+
+const DB_NAME = 'jarvis';
+const DB_VERSION = 5;
+
+export const STORES = {
+  messages: 'messages',
+  audit: 'audit',
+  images: 'images',
+  memories: 'memories',
+  reminders: 'reminders',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Each case upgrades from the previous version; never edit a released step
+function upgrade(db: IDBDatabase, oldVersion: number) {
+  if (oldVersion < 1) {
+    const messages = db.createObjectStore(STORES.messages, { keyPath: 'id' });
+    messages.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 2) {
+    const audit = db.createObjectStore(STORES.audit, { keyPath: 'id' });
+    audit.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 3) {
+    const images = db.createObjectStore(STORES.images, { keyPath: 'id' });
+    images.createIndex('timestamp', 'timestamp');
+  }
+  if (oldVersion < 4) {
+    const memories = db.createObjectStore(STORES.memories, { keyPath: 'id' });
+    memories.createIndex('updatedAt', 'updatedAt');
+  }
+  if (oldVersion < 5) {
+    const reminders = db.createObjectStore(STORES.reminders, { keyPath: 'id' });
+    reminders.createIndex('dueAt', 'dueAt');
+  }
+}
+
+export function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (!('indexedDB' in window)) {
+        reject(new Error("IndexedDB is not supported in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (e) => upgrade(request.result, e.oldVersion);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a retry after a failed open
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Runs `fn` inside a transaction and resolves once it commits
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  const result = await fn(tx.objectStore(storeName));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  return result;
+}
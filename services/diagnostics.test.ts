@@ -0,0 +1,24 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { Diagnostics } from './diagnostics';
+import { createFakeProvider, setProvider } from './providers';
+
+afterEach(() => {
+  setProvider(null);
+});
+
+describe('Diagnostics.status', () => {
+  it('reports unverified until the backend has been probed, then nominal', async () => {
+    setProvider(createFakeProvider({}));
+
+    const before = await Diagnostics.status();
+    expect(before.status).toBe('unverified');
+    expect(before.probes).toBe('not run yet');
+
+    const results = await Diagnostics.probeBackend();
+    expect(results.every(r => r.status === 'pass')).toBe(true);
+
+    const after = await Diagnostics.status();
+    expect(after.status).toBe('nominal');
+  });
+});
@@ -0,0 +1,284 @@
+// Diagnostics console measurements: audio engine facts, loopback latency and backend probes.
+// The latest results are kept so getSystemStatus can report real numbers to the model.
+
+import { getProvider } from "./providers";
+import { SettingsStore } from "./settings";
+import { canSelectOutputDevice, openMicrophone, selectOutputDevice } from "./audioUtils";
+
+export type CheckStatus = 'pass' | 'warn' | 'fail';
+
+export interface CheckResult {
+  id: string;
+  label: string;
+  status: CheckStatus;
+  detail: string;
+  ms?: number;
+}
+
+export interface AudioContextReport {
+  sampleRate: number;
+  // Null where the browser does not expose the figure
+  baseLatencyMs: number | null;
+  outputLatencyMs: number | null;
+  state: AudioContextState;
+}
+
+export interface LoopbackResult {
+  // Median mic-to-speaker round trip; null when no pulse was heard
+  latencyMs: number | null;
+  pulsesHeard: number;
+  pulsesSent: number;
+  at: number;
+}
+
+export interface AudioDevices {
+  inputs: MediaDeviceInfo[];
+  outputs: MediaDeviceInfo[];
+}
+
+// The uplink's own contexts, lent by the dashboard while they exist
+type ContextSource = () => { capture?: AudioContext | null; playback?: AudioContext | null };
+
+const PROBE_TIMEOUT_MS = 10000;
+const PULSE_COUNT = 4;
+// Longest round trip the test can attribute to a pulse
+const PULSE_INTERVAL_S = 0.8;
+const PULSE_LENGTH_S = 0.02;
+const WARN_LATENCY_MS = 300;
+
+const LEVEL_PROCESSOR = 'jarvis-level-probe';
+
+// Posts the peak of every render quantum with its frame position on the audio clock
+const LEVEL_PROCESSOR_SOURCE = `
+class JarvisLevelProbe extends AudioWorkletProcessor {
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (channel) {
+      let peak = 0;
+      for (let i = 0; i < channel.length; i++) peak = Math.max(peak, Math.abs(channel[i]));
+      this.port.postMessage({ frame: currentFrame, peak });
+    }
+    return true;
+  }
+}
+registerProcessor('${LEVEL_PROCESSOR}', JarvisLevelProbe);
+`;
+
+let contextSource: ContextSource | null = null;
+let lastProbes: { results: CheckResult[]; at: number } | null = null;
+let lastLoopback: LoopbackResult | null = null;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const roundMs = (seconds: number | undefined) => typeof seconds === 'number' ? Math.round(seconds * 10000) / 10 : null;
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  return Promise.race([promise, new Promise<T>((_, reject) => setTimeout(() => reject(new Error(`No answer after ${ms / 1000}s`)), ms))]);
+}
+
+// SDK errors often wrap a JSON body; keep just the human-readable message
+function shortError(err: unknown): string {
+  const text = err instanceof Error ? err.message : String(err);
+  const inner = text.match(/"message"\s*:\s*"([^"]+)"/)?.[1];
+  return (inner || text).slice(0, 160);
+}
+
+const isAuthError = (detail: string) => /api[ _-]?key|401|403|unauth|permission|credential/i.test(detail);
+
+function keepProbes(results: CheckResult[]): CheckResult[] {
+  lastProbes = { results, at: Date.now() };
+  return results;
+}
+
+export function describeContext(ctx: AudioContext): AudioContextReport {
+  return {
+    sampleRate: ctx.sampleRate,
+    baseLatencyMs: roundMs(ctx.baseLatency),
+    outputLatencyMs: roundMs((ctx as any).outputLatency),
+    state: ctx.state,
+  };
+}
+
+export const Diagnostics = {
+  // Called by the dashboard so reports include the live capture and playback contexts
+  attach(source: ContextSource): () => void {
+    contextSource = source;
+    return () => { if (contextSource === source) contextSource = null; };
+  },
+
+  liveContexts(): { capture: AudioContextReport | null; playback: AudioContextReport | null } {
+    const { capture, playback } = contextSource?.() || {};
+    return {
+      capture: capture && capture.state !== 'closed' ? describeContext(capture) : null,
+      playback: playback && playback.state !== 'closed' ? describeContext(playback) : null,
+    };
+  },
+
+  // Labels stay empty until microphone permission has been granted once
+  async devices(): Promise<AudioDevices> {
+    const all = await navigator.mediaDevices.enumerateDevices();
+    return {
+      inputs: all.filter(d => d.kind === 'audioinput'),
+      outputs: all.filter(d => d.kind === 'audiooutput'),
+    };
+  },
+
+  async micPermission(): Promise<PermissionState | 'unknown'> {
+    try {
+      return (await navigator.permissions.query({ name: 'microphone' as PermissionName })).state;
+    } catch {
+      return 'unknown';
+    }
+  },
+
+  // Plays short tones through the chosen output and times their arrival at the chosen input.
+  // Echo cancellation is off for the test, so speakers (not headphones) must be audible to the mic.
+  async measureLoopback(inputId: string, outputId: string): Promise<LoopbackResult> {
+    const stream = await openMicrophone(inputId, false);
+    const ctx = new AudioContext({ latencyHint: 'interactive' });
+    try {
+      await selectOutputDevice(ctx, outputId);
+      const url = URL.createObjectURL(new Blob([LEVEL_PROCESSOR_SOURCE], { type: 'application/javascript' }));
+      try {
+        await ctx.audioWorklet.addModule(url);
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+      if (ctx.state === 'suspended') await ctx.resume();
+
+      const blocks: Array<{ time: number; peak: number }> = [];
+      const probe = new AudioWorkletNode(ctx, LEVEL_PROCESSOR);
+      probe.port.onmessage = (e) => blocks.push({ time: e.data.frame / ctx.sampleRate, peak: e.data.peak });
+      // The probe only runs while connected to the graph; keep it silent
+      const sink = ctx.createGain();
+      sink.gain.value = 0;
+      ctx.createMediaStreamSource(stream).connect(probe);
+      probe.connect(sink).connect(ctx.destination);
+
+      // Room noise sets the detection threshold
+      await wait(400);
+      const floor = blocks.reduce((max, b) => Math.max(max, b.peak), 0);
+      const threshold = Math.max(floor * 3, 0.02);
+
+      const start = ctx.currentTime + 0.1;
+      const sent = Array.from({ length: PULSE_COUNT }, (_, i) => start + i * PULSE_INTERVAL_S);
+      for (const at of sent) {
+        const osc = ctx.createOscillator();
+        const gain = ctx.createGain();
+        osc.frequency.value = 1000;
+        gain.gain.setValueAtTime(0.5, at);
+        gain.gain.setValueAtTime(0, at + PULSE_LENGTH_S);
+        osc.connect(gain).connect(ctx.destination);
+        osc.start(at);
+        osc.stop(at + PULSE_LENGTH_S);
+      }
+      await wait((0.1 + PULSE_COUNT * PULSE_INTERVAL_S + 0.2) * 1000);
+
+      const delays = sent
+        .map(at => blocks.find(b => b.time >= at && b.time < at + PULSE_INTERVAL_S && b.peak > threshold))
+        .map((hit, i) => hit ? (hit.time - sent[i]) * 1000 : null)
+        .filter((d): d is number => d !== null)
+        .sort((a, b) => a - b);
+
+      lastLoopback = {
+        latencyMs: delays.length ? Math.round(delays[Math.floor(delays.length / 2)]) : null,
+        pulsesHeard: delays.length,
+        pulsesSent: PULSE_COUNT,
+        at: Date.now(),
+      };
+      return lastLoopback;
+    } finally {
+      stream.getTracks().forEach(t => t.stop());
+      await ctx.close();
+    }
+  },
+
+  loopbackStatus(result: LoopbackResult): CheckStatus {
+    if (result.latencyMs === null) return 'fail';
+    return result.latencyMs > WARN_LATENCY_MS || result.pulsesHeard < result.pulsesSent ? 'warn' : 'pass';
+  },
+
+  // Network, credentials and every model the active profile and backend use
+  async probeBackend(): Promise<CheckResult[]> {
+    const { backend } = SettingsStore.load();
+    const profile = SettingsStore.getActiveProfile();
+    const online = navigator.onLine;
+    const results: CheckResult[] = [
+      { id: 'network', label: 'Network', status: online ? 'pass' : 'fail', detail: online ? 'Browser reports online' : 'Browser reports offline' },
+    ];
+
+    const provider = getProvider();
+    const credential: CheckResult = backend.kind === 'openai'
+      ? { id: 'credentials', label: 'Endpoint', status: 'fail', detail: backend.baseUrl.trim() ? backend.baseUrl : 'No base URL set in Settings' }
+      : { id: 'credentials', label: 'API key', status: 'fail', detail: 'API_KEY is not set in .env.local' };
+    results.push(credential);
+    if (!provider) return keepProbes(results);
+
+    const models: Array<[string, string]> = [
+      ['chat', profile.chatModel],
+      ['live', profile.liveModel],
+      ['image', profile.imageModel],
+      ['think', profile.thinkModel],
+    ];
+    if (provider.id === 'openai') models.push(['stt', backend.sttModel], ['tts', backend.ttsModel]);
+
+    const checks = await Promise.all(models.map(async ([role, model]): Promise<CheckResult> => {
+      const started = performance.now();
+      try {
+        await withTimeout(provider.checkModel(model), PROBE_TIMEOUT_MS);
+        return { id: `model:${role}`, label: `${role.toUpperCase()} model`, status: 'pass', detail: model, ms: Math.round(performance.now() - started) };
+      } catch (err) {
+        return { id: `model:${role}`, label: `${role.toUpperCase()} model`, status: 'fail', detail: `${model}: ${shortError(err)}`, ms: Math.round(performance.now() - started) };
+      }
+    }));
+
+    // Any model answering proves the credentials; only auth errors everywhere disprove them
+    const failures = checks.filter(c => c.status === 'fail');
+    if (failures.length < checks.length) {
+      credential.status = 'pass';
+      credential.detail = provider.id === 'fake' ? 'Offline demo provider' : `Accepted by ${provider.id === 'openai' ? backend.baseUrl : 'Gemini API'}`;
+    } else if (failures.some(c => isAuthError(c.detail))) {
+      credential.detail = 'Rejected by the backend';
+    } else {
+      credential.status = 'warn';
+      credential.detail = 'Could not verify: backend unreachable';
+    }
+    return keepProbes([...results, ...checks]);
+  },
+
+  lastProbes() {
+    return lastProbes;
+  },
+
+  lastLoopback() {
+    return lastLoopback;
+  },
+
+  // Everything measurable without touching the microphone, for getSystemStatus
+  async status() {
+    const settings = SettingsStore.load();
+    const [devices, permission] = await Promise.all([
+      Diagnostics.devices().catch((): AudioDevices => ({ inputs: [], outputs: [] })),
+      Diagnostics.micPermission(),
+    ]);
+    const label = (list: MediaDeviceInfo[], id: string) => id ? list.find(d => d.deviceId === id)?.label || 'selected device (unavailable)' : 'system default';
+    const failed = lastProbes?.results.filter(r => r.status === 'fail').map(r => r.label) || [];
+    const online = navigator.onLine;
+    return {
+      // Nothing is claimed nominal until the backend probes have actually passed
+      status: !online ? 'offline' : failed.length || permission === 'denied' ? 'degraded' : lastProbes ? 'nominal' : 'unverified',
+      online,
+      platform: navigator.platform,
+      backend: settings.backend.kind,
+      microphone: { permission, selected: label(devices.inputs, settings.devices.inputId), available: devices.inputs.length },
+      speakers: { selected: label(devices.outputs, settings.devices.outputId), available: devices.outputs.length, selectable: canSelectOutputDevice() },
+      // Null while no voice uplink is running
+      audioContexts: Diagnostics.liveContexts(),
+      loopback: lastLoopback ? { ...lastLoopback, secondsAgo: Math.round((Date.now() - lastLoopback.at) / 1000) } : 'not measured yet',
+      probes: lastProbes
+        ? { secondsAgo: Math.round((Date.now() - lastProbes.at) / 1000), failed, results: lastProbes.results.map(({ label, status, detail, ms }) => ({ label, status, detail, ms })) }
+        : 'not run yet',
+      timestamp: Date.now(),
+    };
+  },
+};
@@ -0,0 +1,95 @@
+// Persistent gallery of generated images, kept in IndexedDB with their prompts
+
+import { STORES, requestToPromise, withStore } from "./db";
+
+export interface GalleryImage {
+  id: string;
+  prompt: string;
+  model: string;
+  timestamp: Date;
+  mimeType: string;
+  // Base64 image bytes
+  data: string;
+  // Gallery image this one was edited from
+  parentId?: string;
+}
+
+export const toDataUrl = (image: Pick<GalleryImage, 'data' | 'mimeType'>) => `data:${image.mimeType};base64,${image.data}`;
+
+// Images IndexedDB refused (e.g. quota exceeded), kept for this visit so they can still be viewed and edited
+const unsaved = new Map<string, GalleryImage>();
+
+export const ImageGallery = {
+  // Newest first
+  async list(): Promise<GalleryImage[]> {
+    let stored: GalleryImage[] = [];
+    try {
+      stored = await withStore(STORES.images, 'readonly', store =>
+        requestToPromise(store.index('timestamp').getAll() as IDBRequest<GalleryImage[]>)
+      );
+    } catch (e) {
+      console.error("Image gallery unavailable", e);
+    }
+    return [...stored, ...unsaved.values()].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+  },
+
+  async get(id: string): Promise<GalleryImage | null> {
+    if (unsaved.has(id)) return unsaved.get(id)!;
+    const image = await withStore(STORES.images, 'readonly', store =>
+      requestToPromise(store.get(id) as IDBRequest<GalleryImage | undefined>)
+    );
+    return image || null;
+  },
+
+  async latest(): Promise<GalleryImage | null> {
+    const [newest] = await ImageGallery.list();
+    return newest || null;
+  },
+
+  // False when the image could only be kept in memory
+  async add(image: GalleryImage): Promise<boolean> {
+    try {
+      await withStore(STORES.images, 'readwrite', store => requestToPromise(store.put(image)));
+      return true;
+    } catch (e) {
+      console.error("Failed to save image to gallery", e);
+      unsaved.set(image.id, image);
+      return false;
+    }
+  },
+
+  async remove(id: string): Promise<void> {
+    if (unsaved.delete(id)) return;
+    await withStore(STORES.images, 'readwrite', store => requestToPromise(store.delete(id)));
+  },
+
+  async clear(): Promise<void> {
+    unsaved.clear();
+    await withStore(STORES.images, 'readwrite', store => requestToPromise(store.clear()));
+  },
+
+  download(image: GalleryImage) {
+    const ext = image.mimeType.split('/')[1] || 'png';
+    const a = document.createElement('a');
+    a.href = toDataUrl(image);
+    a.download = `jarvis-${image.timestamp.toISOString().replace(/[:.]/g, '-')}.${ext}`;
+    a.click();
+  },
+
+  // The async clipboard only takes PNG reliably, so other formats are re-encoded
+  async copy(image: GalleryImage): Promise<void> {
+    let blob = await (await fetch(toDataUrl(image))).blob();
+    if (blob.type !== 'image/png') {
+      const bitmap = await createImageBitmap(blob);
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      blob = await new Promise<Blob>((resolve, reject) =>
+        canvas.toBlob(b => b ? resolve(b) : reject(new Error("PNG encoding failed")), 'image/png')
+      );
+    }
+    await navigator.clipboard.write([new ClipboardItem({ 'image/png': blob })]);
+  },
+};
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { createInputGate, InputGateOptions } from './inputGate';
+
+const RATE = 16000;
+
+// Low-pitched tone: voiced-speech-like energy with a low zero-crossing rate
+const tone = (ms: number, amplitude: number, frequency = 200) =>
+  Float32Array.from({ length: RATE * ms / 1000 }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / RATE));
+const silence = (ms: number) => new Float32Array(RATE * ms / 1000);
+
+// Feeds audio in fixed-size chunks and records what the gate lets through
+function run(options: Partial<InputGateOptions>, audio: Float32Array[], chunkMs = 40) {
+  const events: Array<'start' | 'end'> = [];
+  const sent: Float32Array[] = [];
+  // Gate state after each chunk, by the time (ms) the chunk ends
+  const openAt: Array<[number, boolean]> = [];
+  const gate = createInputGate({ mode: 'vad', sampleRate: RATE, ...options }, {
+    onStart: () => events.push('start'),
+    onAudio: (pcm) => sent.push(pcm),
+    onEnd: () => events.push('end'),
+  });
+  const all = Float32Array.from(audio.flatMap(a => Array.from(a)));
+  const chunk = RATE * chunkMs / 1000;
+  for (let offset = 0; offset < all.length; offset += chunk) {
+    gate.push(all.subarray(offset, offset + chunk));
+    openAt.push([(offset + chunk) / RATE * 1000, gate.isOpen()]);
+  }
+  const isOpenAt = (ms: number) => openAt.find(([t]) => t >= ms)![1];
+  return { events, sent, isOpenAt, sentSamples: sent.reduce((n, s) => n + s.length, 0) };
+}
+
+describe('createInputGate (vad)', () => {
+  it('opens on speech and closes only after the hangover', () => {
+    const { events, isOpenAt } = run({ hangoverMs: 500 }, [silence(1000), tone(600, 0.3), silence(1500)]);
+
+    expect(isOpenAt(900)).toBe(false);
+    expect(isOpenAt(1200)).toBe(true);
+    // 300 ms into the silence, still inside the hangover
+    expect(isOpenAt(1900)).toBe(true);
+    expect(isOpenAt(2300)).toBe(false);
+    expect(events).toEqual(['start', 'end']);
+  });
+
+  it('sends the pre-roll from just before speech onset', () => {
+    const { sent, sentSamples } = run({ preRollMs: 300, hangoverMs: 200 }, [silence(1000), tone(400, 0.3), silence(400)]);
+
+    // The first chunk out predates the onset, so the start of the word is not clipped
+    expect(sent[0].every(v => v === 0)).toBe(true);
+    const leading = sent.findIndex(chunk => chunk.some(v => v !== 0));
+    const leadingMs = sent.slice(0, leading).reduce((n, s) => n + s.length, 0) / RATE * 1000;
+    expect(leadingMs).toBeGreaterThanOrEqual(240);
+    expect(leadingMs).toBeLessThanOrEqual(340);
+    expect(sentSamples).toBeGreaterThan(RATE * 0.4);
+  });
+
+  it('raises the noise floor under steady hum so the gate closes, then reopens for speech', () => {
+    // -33 dB hum is well above the initial floor plus the sensitivity, and passes the zero-crossing check
+    const hum = (ms: number) => tone(ms, 0.03, 100);
+    const humAndSpeech = (ms: number) => {
+      const mix = hum(ms);
+      const voice = tone(ms, 0.3);
+      return mix.map((v, i) => v + voice[i]);
+    };
+    const { events, isOpenAt } = run({ hangoverMs: 500 }, [hum(6000), humAndSpeech(800), hum(1500)]);
+
+    expect(isOpenAt(5900)).toBe(false);
+    expect(isOpenAt(6500)).toBe(true);
+    expect(isOpenAt(8200)).toBe(false);
+    expect(events.filter(e => e === 'start')).toHaveLength(2);
+  });
+
+  it('detects speech when chunks are shorter than an analysis frame', () => {
+    const { isOpenAt } = run({}, [silence(500), tone(500, 0.3)], 10);
+    expect(isOpenAt(450)).toBe(false);
+    expect(isOpenAt(900)).toBe(true);
+  });
+});
@@ -0,0 +1,168 @@
+// Decides which microphone audio leaves the browser: always-on, local VAD or push-to-talk
+
+export type InputGateMode = 'always' | 'vad' | 'ptt';
+
+export interface InputGateOptions {
+  mode: InputGateMode;
+  sampleRate?: number;
+  // dB above the tracked noise floor that counts as speech
+  sensitivityDb?: number;
+  // Keep the gate open this long after the last speech frame
+  hangoverMs?: number;
+  // Audio kept from just before speech onset so first syllables are not clipped
+  preRollMs?: number;
+  onChange?: (isOpen: boolean) => void;
+}
+
+export interface InputGateSink {
+  onStart: () => void;
+  onAudio: (pcm: Float32Array) => void;
+  onEnd: () => void;
+}
+
+export interface InputGate {
+  push: (pcm: Float32Array) => void;
+  // Push-to-talk key state; ignored in other modes
+  setPressed: (pressed: boolean) => void;
+  isOpen: () => boolean;
+  close: () => void;
+}
+
+const FRAME_MS = 20;
+// Consecutive speech frames needed to open, so clicks and taps are ignored
+const ATTACK_FRAMES = 3;
+const MIN_FLOOR_DB = -70;
+// Speech always dips between words; a level that never does over this window is background (fans, hum)
+const FLOOR_WINDOW_FRAMES = 3000 / FRAME_MS;
+// Broadband noise (fans, hiss) crosses zero far more often than voiced speech
+const MAX_SPEECH_ZCR = 0.35;
+
+const frameLevelDb = (frame: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) sum += frame[i] * frame[i];
+  return 10 * Math.log10(sum / frame.length + 1e-12);
+};
+
+const zeroCrossingRate = (frame: Float32Array) => {
+  let crossings = 0;
+  for (let i = 1; i < frame.length; i++) {
+    if ((frame[i - 1] >= 0) !== (frame[i] >= 0)) crossings++;
+  }
+  return crossings / frame.length;
+};
+
+export function createInputGate(options: InputGateOptions, sink: InputGateSink): InputGate {
+  const sampleRate = options.sampleRate ?? 16000;
+  const sensitivityDb = options.sensitivityDb ?? 12;
+  const frameSize = Math.round(sampleRate * FRAME_MS / 1000);
+  const hangoverFrames = Math.ceil((options.hangoverMs ?? 700) / FRAME_MS);
+  const preRollSamples = Math.round(sampleRate * (options.preRollMs ?? 300) / 1000);
+
+  let open = false;
+  let pressed = false;
+  let noiseFloorDb = -60;
+  let speechRun = 0;
+  let silenceRun = 0;
+  let preRoll: Float32Array[] = [];
+  let preRollLength = 0;
+  // Levels of the latest frames, for the minimum-statistics floor
+  let recentLevels: number[] = [];
+  // Samples short of a whole frame, carried into the next chunk
+  let partial = new Float32Array(0);
+
+  const setOpen = (next: boolean) => {
+    if (next === open) return;
+    open = next;
+    if (open) {
+      sink.onStart();
+      for (const chunk of preRoll) sink.onAudio(chunk);
+    } else {
+      sink.onEnd();
+    }
+    preRoll = [];
+    preRollLength = 0;
+    options.onChange?.(open);
+  };
+
+  const remember = (pcm: Float32Array) => {
+    preRoll.push(pcm);
+    preRollLength += pcm.length;
+    while (preRoll.length > 1 && preRollLength - preRoll[0].length >= preRollSamples) {
+      preRollLength -= preRoll.shift()!.length;
+    }
+  };
+
+  // Energy against an adaptive noise floor, with a zero-crossing check against hiss
+  const detect = (pcm: Float32Array) => {
+    let samples = pcm;
+    if (partial.length) {
+      samples = new Float32Array(partial.length + pcm.length);
+      samples.set(partial);
+      samples.set(pcm, partial.length);
+    }
+    let start = 0;
+    for (; start + frameSize <= samples.length; start += frameSize) {
+      const frame = samples.subarray(start, start + frameSize);
+      const level = frameLevelDb(frame);
+      const isSpeech = level > noiseFloorDb + sensitivityDb && zeroCrossingRate(frame) < MAX_SPEECH_ZCR;
+
+      recentLevels.push(level);
+      if (recentLevels.length > FLOOR_WINDOW_FRAMES) recentLevels.shift();
+
+      if (isSpeech) {
+        speechRun++;
+        silenceRun = 0;
+        // Steady noise loud enough to pass as speech would otherwise hold the floor (and the gate) forever
+        if (recentLevels.length === FLOOR_WINDOW_FRAMES) {
+          noiseFloorDb = Math.max(noiseFloorDb, Math.min(...recentLevels));
+        }
+      } else {
+        speechRun = 0;
+        silenceRun++;
+        // Floor follows quiet frames quickly and loud ones slowly
+        const rate = level < noiseFloorDb ? 0.2 : 0.01;
+        noiseFloorDb = Math.max(MIN_FLOOR_DB, noiseFloorDb + (level - noiseFloorDb) * rate);
+      }
+
+      if (!open && speechRun >= ATTACK_FRAMES) setOpen(true);
+      else if (open && silenceRun >= hangoverFrames) setOpen(false);
+    }
+    partial = samples.slice(start);
+  };
+
+  if (options.mode === 'always') open = true;
+
+  return {
+    push: (pcm) => {
+      switch (options.mode) {
+        case 'always':
+          sink.onAudio(pcm);
+          return;
+        case 'ptt':
+          if (open) sink.onAudio(pcm);
+          else remember(pcm);
+          return;
+        case 'vad': {
+          const wasOpen = open;
+          if (!open) remember(pcm);
+          detect(pcm);
+          // A chunk that opened the gate already went out with the pre-roll
+          if (open && wasOpen) sink.onAudio(pcm);
+          return;
+        }
+      }
+    },
+
+    setPressed: (next) => {
+      if (options.mode !== 'ptt' || next === pressed) return;
+      pressed = next;
+      setOpen(pressed);
+    },
+
+    isOpen: () => open,
+
+    close: () => {
+      if (options.mode !== 'always') setOpen(false);
+    },
+  };
+}
@@ -0,0 +1,287 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { JarvisService, VoiceStatus } from './jarvisService';
+import { createFakeProvider, fakeChat, fakeLive, FakeLiveStep, FakeScript, setProvider } from './providers';
+import { Message } from '../types';
+
+const useScript = (script: FakeScript) => {
+  const provider = createFakeProvider(script);
+  setProvider(provider);
+  return provider;
+};
+
+// Everything connectLive reports, plus a handle once the session is up
+function liveHarness(script: FakeLiveStep[][], toolResult: unknown = { ok: true }) {
+  const provider = useScript({ live: script });
+  const statuses: VoiceStatus[] = [];
+  const transcripts: Array<[string, string]> = [];
+  const connection: string[] = [];
+  const onTool = vi.fn(async () => toolResult);
+  const onClose = vi.fn();
+  const onError = vi.fn();
+  const connect = () => JarvisService.connectLive(
+    {} as AudioContext,
+    null,
+    () => {},
+    (role, text) => transcripts.push([role, text]),
+    (status) => statuses.push(status),
+    onTool,
+    onClose,
+    onError,
+    { onConnectionStateChange: (state) => connection.push(state) }
+  );
+  return { provider, statuses, transcripts, connection, onTool, onClose, onError, connect };
+}
+
+const message = (role: Message['role'], content: string): Message => ({ id: content, role, content, timestamp: new Date() });
+
+afterEach(() => {
+  setProvider(null);
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('JarvisService.sendMessage', () => {
+  it('runs requested tools and feeds their results back to the model', async () => {
+    const provider = useScript({
+      chat: [
+        [fakeChat.toolCall({ id: 'c1', name: 'setTimer', args: { minutes: 5 } })],
+        [fakeChat.text('Timer set, '), fakeChat.text('Sir.')],
+      ],
+    });
+    const onTool = vi.fn(async () => ({ started: true }));
+    const chunks: string[] = [];
+
+    const result = await JarvisService.sendMessage([], 'Set a timer', (text) => chunks.push(text), onTool);
+
+    expect(onTool).toHaveBeenCalledWith('setTimer', { minutes: 5 });
+    expect(result.text).toBe('Timer set, Sir.');
+    expect(chunks).toEqual(['Timer set, ', 'Timer set, Sir.']);
+    expect(provider.recording.requests).toHaveLength(2);
+    const followUp = provider.recording.requests[1].contents as any[];
+    expect(followUp.at(-2)).toEqual({ role: 'model', parts: [{ functionCall: { id: 'c1', name: 'setTimer', args: { minutes: 5 } } }] });
+    expect(followUp.at(-1)).toEqual({
+      role: 'user',
+      parts: [{ functionResponse: { id: 'c1', name: 'setTimer', response: { result: { started: true } } } }],
+    });
+  });
+
+  it('reports tool failures to the model instead of throwing', async () => {
+    const provider = useScript({
+      chat: [[fakeChat.toolCall({ id: 'c1', name: 'broken', args: {} })], [fakeChat.text('That failed, Sir.')]],
+    });
+    const onTool = vi.fn(async () => { throw new Error('boom'); });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await JarvisService.sendMessage([], 'Do it', undefined, onTool);
+
+    expect(result.text).toBe('That failed, Sir.');
+    const response = (provider.recording.requests[1].contents as any[]).at(-1).parts[0].functionResponse;
+    expect(response.response.result).toEqual({ error: 'Execution failed', details: 'Error: boom' });
+  });
+
+  it('sends earlier turns but leaves out system notes and thinking placeholders', async () => {
+    const provider = useScript({ chat: [[fakeChat.text('Fine.')]] });
+    const history = [
+      message('user', 'Hello'),
+      message('system', 'Connected'),
+      { ...message('model', 'thinking'), isThinking: true },
+      message('model', 'Hi, Sir.'),
+    ];
+
+    await JarvisService.sendMessage(history, 'How are you?');
+
+    expect(provider.recording.requests[0].contents).toEqual([
+      { role: 'user', parts: [{ text: 'Hello' }] },
+      { role: 'model', parts: [{ text: 'Hi, Sir.' }] },
+      { role: 'user', parts: [{ text: 'How are you?' }] },
+    ]);
+  });
+
+  it('sends attachment bytes only with the message that shared them', async () => {
+    const provider = useScript({ chat: [[fakeChat.text('Noted.')]] });
+    const photo = { id: 'a1', name: 'photo.png', mimeType: 'image/png', size: 3, data: 'AAAA' };
+    const chart = { id: 'a2', name: 'chart.png', mimeType: 'image/png', size: 3, data: 'BBBB' };
+    const history = [{ ...message('user', 'Look at this'), attachments: [photo] }, message('model', 'A cat, Sir.')];
+
+    await JarvisService.sendMessage(history, 'And this?', undefined, undefined, { attachments: [chart] });
+
+    const [earlier, , latest] = provider.recording.requests[0].contents as any[];
+    expect(earlier.parts).toEqual([
+      { text: '[Attached file: photo.png (image/png)] [shared earlier; contents not repeated]' },
+      { text: 'Look at this' },
+    ]);
+    expect(latest.parts).toContainEqual({ inlineData: { mimeType: 'image/png', data: 'BBBB' } });
+  });
+});
+
+describe('JarvisService.connectLive', () => {
+  it('dispatches tool calls and sends their results back', async () => {
+    const live = liveHarness([[
+      fakeLive.toolCall('getCurrentTime', { zone: 'IST' }, 'call-1'),
+      fakeLive.waitFor('toolResponse'),
+      fakeLive.turnComplete(),
+    ]], { time: '10:00' });
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.statuses.at(-1)).toBe('idle'));
+
+    expect(live.onTool).toHaveBeenCalledWith('getCurrentTime', { zone: 'IST' });
+    expect(live.provider.recording.toolResponses[0]).toEqual({
+      functionResponses: [{ id: 'call-1', name: 'getCurrentTime', response: { result: { time: '10:00' } } }],
+    });
+    await handle.disconnect();
+  });
+
+  it('moves through listening, processing and back to idle', async () => {
+    const live = liveHarness([[
+      fakeLive.inputTranscript('What time'),
+      fakeLive.toolCall('getCurrentTime', {}),
+      fakeLive.waitFor('toolResponse'),
+      fakeLive.outputTranscript('It is ten.'),
+      fakeLive.turnComplete(),
+    ]]);
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.transcripts).toHaveLength(2));
+
+    expect(live.statuses).toEqual(['idle', 'listening', 'processing', 'idle']);
+    await handle.disconnect();
+  });
+
+  it('flushes both sides of the conversation when the turn completes', async () => {
+    const live = liveHarness([[
+      fakeLive.inputTranscript('Open '),
+      fakeLive.inputTranscript('the pod bay doors'),
+      fakeLive.outputTranscript("I'm afraid "),
+      fakeLive.outputTranscript('I can do that, Sir.'),
+      fakeLive.turnComplete(),
+      fakeLive.inputTranscript('Thanks'),
+      fakeLive.turnComplete(),
+    ]]);
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.transcripts).toHaveLength(3));
+
+    expect(live.transcripts).toEqual([
+      ['user', 'Open the pod bay doors'],
+      ['model', "I'm afraid I can do that, Sir."],
+      ['user', 'Thanks'],
+    ]);
+    await handle.disconnect();
+  });
+
+  it('reconnects with the resumption handle after the connection drops', async () => {
+    const live = liveHarness([
+      [{ message: { sessionResumptionUpdate: { resumable: true, newHandle: 'resume-1' } } }, fakeLive.turnComplete()],
+      [fakeLive.inputTranscript('Still there?'), fakeLive.turnComplete()],
+    ]);
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.statuses).toEqual(['idle', 'idle']));
+    // Only the backoff is faked; IndexedDB keeps real timers during connect
+    vi.useFakeTimers();
+    live.provider.dropConnection();
+    expect(live.connection).toEqual(['reconnecting']);
+
+    // Backoff starts at one second plus jitter
+    await vi.advanceTimersByTimeAsync(1300);
+
+    expect(live.connection).toEqual(['reconnecting', 'connected']);
+    expect(live.provider.recording.connections).toHaveLength(2);
+    expect(live.provider.recording.connections[1].config?.sessionResumption).toEqual({ handle: 'resume-1' });
+    expect(live.transcripts).toEqual([['user', 'Still there?']]);
+    expect(live.onClose).not.toHaveBeenCalled();
+
+    await handle.disconnect();
+    expect(live.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('closes at once when disconnected while waiting to reconnect', async () => {
+    const live = liveHarness([[fakeLive.turnComplete()], []]);
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.statuses).toEqual(['idle', 'idle']));
+    vi.useFakeTimers();
+    live.provider.dropConnection();
+    await handle.disconnect();
+
+    expect(live.onClose).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(live.provider.recording.connections).toHaveLength(1);
+    expect(live.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops tool results for calls made on a connection that has since been replaced', async () => {
+    let finishTool: (result: unknown) => void = () => {};
+    const live = liveHarness([[fakeLive.toolCall('slowTool', {})], [fakeLive.turnComplete()]]);
+    live.onTool.mockImplementation(() => new Promise(resolve => { finishTool = resolve; }));
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.onTool).toHaveBeenCalled());
+    vi.useFakeTimers();
+    live.provider.dropConnection();
+    await vi.advanceTimersByTimeAsync(1300);
+    expect(live.connection).toEqual(['reconnecting', 'connected']);
+
+    finishTool({ done: true });
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(live.provider.recording.toolResponses).toEqual([]);
+    await handle.disconnect();
+  });
+
+  it('gives up when every reconnect is accepted and then closed straight away', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const live = liveHarness([
+      [fakeLive.turnComplete(), fakeLive.waitFor('clientContent'), fakeLive.close(1011)],
+      ...Array.from({ length: 10 }, () => [fakeLive.close(1011)]),
+    ]);
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.statuses).toEqual(['idle', 'idle']));
+    vi.useFakeTimers();
+    handle.sendText('Hello');
+    await vi.advanceTimersByTimeAsync(5 * 60000);
+
+    // The first connection plus six retries, none of which the server ever answered on
+    expect(live.provider.recording.connections).toHaveLength(7);
+    expect(live.onError).toHaveBeenCalledTimes(1);
+    expect(live.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry a close the server marks as a policy failure', async () => {
+    const live = liveHarness([[fakeLive.turnComplete(), fakeLive.waitFor('clientContent'), fakeLive.close(1008, 'API key not valid')]]);
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.statuses).toEqual(['idle', 'idle']));
+    vi.useFakeTimers();
+    handle.sendText('Hello');
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(live.provider.recording.connections).toHaveLength(1);
+    expect(live.connection).toEqual([]);
+    expect(live.onError).toHaveBeenCalledWith(new Error('API key not valid'));
+    expect(live.onClose).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a fresh session when the server refuses to resume', async () => {
+    const live = liveHarness([
+      [{ message: { sessionResumptionUpdate: { resumable: true, newHandle: 'stale' } } }, fakeLive.turnComplete()],
+      [fakeLive.close(1008, 'Invalid session handle')],
+      [fakeLive.turnComplete()],
+    ]);
+
+    const handle = await live.connect();
+    await vi.waitFor(() => expect(live.statuses).toEqual(['idle', 'idle']));
+    vi.useFakeTimers();
+    live.provider.dropConnection();
+    await vi.advanceTimersByTimeAsync(10000);
+
+    const handles = live.provider.recording.connections.map(c => c.config?.sessionResumption?.handle);
+    expect(handles).toEqual([undefined, 'stale', undefined]);
+    expect(live.onError).not.toHaveBeenCalled();
+    await handle.disconnect();
+  });
+});
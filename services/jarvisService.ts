@@ -1,30 +1,35 @@
-import { GoogleGenAI, LiveServerMessage, Modality, Type, FunctionDeclaration } from "@google/genai";
-import { Message, GroundingChunk } from "../types";
-import { base64ToUint8Array, decodeAudioData, createPcmBlob, downsampleBuffer } from "./audioUtils";
+import { LiveServerMessage, Modality, FunctionCall, Content, Part } from "@google/genai";
+import { Attachment, Message, GroundingChunk } from "../types";
+import { toolRegistry } from "./tools";
+import { base64ToUint8Array, decodeAudioData, createPcmBlob } from "./audioUtils";
+import { createAudioCapture, AudioCapture } from "./audioCapture";
+import { createInputGate, InputGateOptions } from "./inputGate";
+import { InterpreterSettings, Profile, SettingsStore } from "./settings";
+import { MemoryFact, MemoryStore } from "./memoryStore";
+import { getProvider, ImagePayload, LiveSession, UnsupportedContentError } from "./providers";
+import { attachmentParts, attachmentPlaceholders } from "./attachments";
 
-const API_KEY = process.env.API_KEY;
-
-const SYSTEM_INSTRUCTION = `
-You are JARVIS (Just A Rather Very Intelligent System), customized with a friendly Indian spirit.
-**Language Rule**: Speak in **Hinglish** (natural mix of Hindi and English).
-**Persona**: Tony Stark's AI assistant, but "Desi". Loyal, witty, smart, and efficient.
-**Tone**: Use "Sir" or "Boss". Be cool and helpful.
+export type { ImagePayload } from "./providers";
 
+// Persona-independent part of the system prompt
+const CAPABILITIES_INSTRUCTION = `
 **AUDIO ROBUSTNESS**:
 - You are tuned to understand heavy accents (Indian, Global, etc.) and speech in noisy environments.
 - Prioritize extracting the *intent* of the command even if phonetics are unclear.
 - Ignore background chatter; focus on the primary speaker.
 
 **CRITICAL CAPABILITY - WEB NAVIGATION & MEDIA**:
-1. **Play Media (YouTube)**: Use 'playMedia' to *search* and open videos.
+1. **Play Media**: Use 'playMedia' to play YouTube videos or media links in the dashboard's embedded player.
    - "Play Arijit Singh songs" -> playMedia({ query: "Arijit Singh songs", type: "video" })
-   - **CONFIRMATION**: Always say "Playing [query] on YouTube, Sir."
+   - "Add Kesariya to the queue" -> playMedia({ query: "Kesariya", enqueue: true })
+   - **CONFIRMATION**: Always say "Playing [query], Sir." If the result says a search tab was opened instead, say that.
 
-2. **Media Control**: Use 'controlMedia' to simulate media keys on the *current* dashboard.
-   - "Play video", "Resume" -> controlMedia({ action: "play" })
-   - "Pause", "Stop" -> controlMedia({ action: "pause" })
-   - *Note*: This only controls media embedded in this dashboard, not external tabs.
-   - **CONFIRMATION**: Say "Media command executed."
+2. **Media Control**: Use 'controlMedia' for the embedded player and its queue.
+   - "Pause", "Resume" -> controlMedia({ action: "pause" }) / controlMedia({ action: "play" })
+   - "Next song" -> controlMedia({ action: "next" }); "Volume 30%" -> controlMedia({ action: "volume", value: 30 })
+   - "Skip ahead 30 seconds" -> controlMedia({ action: "forward", value: 30 })
+   - "What's playing?" -> controlMedia({ action: "status" }) and answer from the returned player state.
+   - *Note*: This only controls the dashboard player, not external tabs.
 
 3. **Browser Control (Scrolling)**: Use 'scrollPage' to scroll the *current* dashboard.
    - "Scroll down" -> scrollPage({ action: "down" })
@@ -32,7 +37,8 @@ You are JARVIS (Just A Rather Very Intelligent System), customized with a friend
    - "Auto scroll" -> scrollPage({ action: "auto" })
    - **CONFIRMATION**: Say "Scrolling now, Sir."
 
-4. **Google Search**: Use 'performGoogleSearch' for general queries.
+4. **Google Search**: Use 'performGoogleSearch' when the user wants a Google results tab.
+   - If search grounding is available, answer factual questions directly from grounded results instead of opening a tab.
    - "Google who is Iron Man" -> performGoogleSearch({ query: "who is Iron Man" })
    - **CONFIRMATION**: Always say "Searching Google for [query], Sir."
 
@@ -41,9 +47,23 @@ You are JARVIS (Just A Rather Very Intelligent System), customized with a friend
 
 OTHER CAPABILITIES:
 - Check time ('getCurrentTime').
-- System status ('getSystemStatus').
-- Generate images ('generateImage').
+- Timers and reminders ('setTimer', 'setReminder', 'listReminders', 'cancelReminder'). "Remind me in 20 minutes to check the build" -> setReminder({ message: "Check the build", inMinutes: 20 }).
+- When you receive a message starting with [REMINDER] or [TIMER], announce it to the user right away in one short sentence.
+- System status and diagnostics ('getSystemStatus'): real network, microphone, speaker, audio latency and model reachability figures. Pass runProbes: true when the user asks whether the API key or models are working. Report failures plainly; never claim everything is fine without checking.
+- Generate images ('generateImage'). For follow-up changes ("make it darker", "add a helmet") call it again with editImageId set to the previous imageId, or 'latest'.
 - Lock system ('lockSystem').
+- Vision: when the optical feed is active you receive live camera frames. Use them to answer "what am I holding?" or to read labels.
+- Attachments: files the user shares arrive marked [Attached file: name]. Answer questions about them ("what's the deadline in this contract?") from their actual contents, quoting exact dates, figures and clauses.
+- Screen share: when the user shares a screen, window or tab you receive periodic frames of it (sometimes a cropped region). Use them for "what does this error mean?" or "summarise this page"; read the text on screen carefully and say so if it is too small to read.
+
+**LONG-TERM MEMORY**:
+- When the user shares something lasting (preferred music, names of people, recurring tasks), save it with 'rememberFact'.
+- Use 'recallFacts' to look things up and 'forgetFact' when asked to forget or a fact is no longer true.
+- Never store passwords, passcodes or other secrets.
+
+**SAFETY POLICY**:
+- Some actions (such as opening websites) need the user's approval. The tool call waits while a confirmation prompt is shown; the user can say "confirm" or "cancel".
+- If a tool returns POLICY_DENIED or USER_CANCELLED, tell the user briefly and do not retry the same action.
 
 **EXECUTION PROTOCOL**:
 1. Receive command.
@@ -52,131 +72,260 @@ OTHER CAPABILITIES:
 4. **IMMEDIATELY** provide a verbal confirmation to the user based on the tool execution.
 `;
 
-// Define Tools
-const tools: FunctionDeclaration[] = [
-  {
-    name: "getCurrentTime",
-    description: "Get the current local system time.",
-  },
-  {
-    name: "playMedia",
-    description: "Search and open videos or shorts on YouTube in a new tab.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        query: { type: Type.STRING, description: "The video to search for." },
-        type: { type: Type.STRING, description: "Type: 'video' or 'short'." },
-      },
-      required: ["query"],
-    },
-  },
-  {
-    name: "controlMedia",
-    description: "Simulate media playback keys (play/pause) on the current page.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        action: { type: Type.STRING, description: "Action: 'play' or 'pause'." },
-      },
-      required: ["action"],
-    },
-  },
-  {
-    name: "scrollPage",
-    description: "Scroll the page content.",
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            action: { type: Type.STRING, description: "Action: 'up', 'down', 'auto', or 'stop'." }
-        },
-        required: ["action"]
-    }
-  },
-  {
-    name: "openWebsite",
-    description: "Open any website URL in a new tab.",
-    parameters: {
-      type: Type.OBJECT,
-      properties: {
-        url: { type: Type.STRING, description: "The full URL to open." },
-      },
-      required: ["url"],
-    },
-  },
-  {
-    name: "performGoogleSearch",
-    description: "Perform a Google Search.",
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            query: { type: Type.STRING, description: "The search query." }
-        },
-        required: ["query"]
-    }
-  },
-  {
-    name: "getSystemStatus",
-    description: "Get system status.",
-  },
-  {
-    name: "generateImage",
-    description: "Generate an image.",
-    parameters: {
-        type: Type.OBJECT,
-        properties: {
-            prompt: { type: Type.STRING, description: "The image description" }
-        },
-        required: ["prompt"]
-    }
-  },
-  {
-    name: "lockSystem",
-    description: "Lock the system.",
-  }
-];
+const formatMemories = (memories: MemoryFact[]) => memories.length ? `
+**WHAT YOU REMEMBER ABOUT THE USER** (id in brackets):
+${memories.map(m => `- [${m.id}] (${m.category}) ${m.text}`).join('\n')}
+` : '';
+
+const buildSystemInstruction = (profile: Profile, memories: MemoryFact[] = []) => `
+${profile.persona.trim()}
+**Language Rule**: Speak in **${profile.language}**.
+${CAPABILITIES_INSTRUCTION}${formatMemories(memories)}`;
+
+// Replaces the assistant persona entirely: no tools, no memories, translation only
+const buildInterpreterInstruction = ({ source, target, twoWay }: InterpreterSettings) => `
+You are a professional live interpreter, not an assistant.
+- Whenever you hear ${source}, immediately say the same thing in ${target}.${twoWay ? `
+- Whenever you hear ${target}, immediately say the same thing in ${source}.` : ''}
+- Speech in any other language goes into ${target}.
+- Translate only. Never answer questions, greet, comment, summarise or explain, even when the speech is addressed to you.
+- Keep the speaker's meaning, tone and person ("I" stays "I"). Keep names, numbers, dates, prices and units exact.
+- If something is unclear, translate what you understood; never ask for clarification.
+- Stay silent for background noise or coughs.
+`;
 
 export type VoiceStatus = 'listening' | 'processing' | 'speaking' | 'idle';
 
+export type LiveConnectionState = 'connected' | 'reconnecting';
+
+export type ToolCallback = (name: string, args: any) => Promise<any>;
+
+export interface ChatOptions {
+  useSearchGrounding?: boolean;
+  // Files sent along with this message
+  attachments?: Attachment[];
+}
+
+export interface LiveOptions {
+  useSearchGrounding?: boolean;
+  // Microphone chunk duration; smaller values lower latency at the cost of more messages
+  captureChunkMs?: number;
+  onGrounding?: (urls: { title: string; uri: string }[]) => void;
+  // Server detected the user talking over the model; queued audio should stop
+  onInterrupted?: () => void;
+  onConnectionStateChange?: (state: LiveConnectionState) => void;
+  // Running text of the user's current utterance, before the turn is committed
+  onUserSpeech?: (partialText: string) => void;
+  // Running text of the model's current reply, as it is spoken
+  onModelSpeech?: (partialText: string) => void;
+  // Start an interpreter session instead of the assistant
+  interpreter?: InterpreterSettings;
+  // Which mic audio is sent; anything but 'always' replaces server-side turn detection
+  inputGate?: Omit<InputGateOptions, 'sampleRate' | 'onChange'>;
+  onGateChange?: (isOpen: boolean) => void;
+}
+
+export interface GeneratedImage extends ImagePayload {
+  model: string;
+}
+
+export interface LiveSessionHandle {
+  sendVideoFrame: (base64Jpeg: string) => void;
+  // Push-to-talk key held or released
+  setTalking: (pressed: boolean) => void;
+  // Injects a text turn (e.g. a due reminder) that the model answers out loud
+  sendText: (text: string) => void;
+  // Adds context (e.g. shared files) without asking for a reply
+  sendContext: (parts: Part[]) => void;
+  disconnect: () => Promise<void>;
+}
+
+// Upper bound on tool round-trips for a single chat turn
+const MAX_TOOL_ROUNDS = 5;
+
+// Live uplink reconnection (exponential backoff)
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+// Server closes that retrying cannot fix: unsupported data, invalid argument, policy (e.g. a rejected key)
+const FATAL_CLOSE_CODES = new Set([1003, 1007, 1008]);
+
+// Collapse grounding chunks into unique, displayable citations
+function extractGroundingUrls(chunks?: GroundingChunk[]): { title: string; uri: string }[] {
+    const seen = new Set<string>();
+    const urls: { title: string; uri: string }[] = [];
+    for (const chunk of chunks || []) {
+        const uri = chunk.web?.uri;
+        if (!uri || seen.has(uri)) continue;
+        seen.add(uri);
+        urls.push({ title: chunk.web?.title || uri, uri });
+    }
+    return urls;
+}
+
+// Shared tool dispatch for the live session and the text chat
+async function executeToolCall(fc: FunctionCall, onToolCallback?: ToolCallback): Promise<any> {
+    const name = fc.name || '';
+    console.log(`Executing Tool: ${name}`, fc.args);
+    if (!onToolCallback) return { error: 'Tool not available in this context' };
+    try {
+        return await onToolCallback(name, fc.args || {});
+    } catch (err) {
+        console.error(`Tool Execution Failed: ${name}`, err);
+        return { error: 'Execution failed', details: String(err) };
+    }
+}
+
 export const JarvisService = {
   async sendMessage(
     history: Message[],
-    newMessage: string
+    newMessage: string,
+    onChunk?: (text: string) => void,
+    onToolCallback?: ToolCallback,
+    options: ChatOptions = {}
   ): Promise<{ text: string; groundingUrls?: { title: string; uri: string }[] }> {
-    if (!process.env.API_KEY) {
+    const provider = getProvider();
+    if (!provider) {
         return { text: "API Key is missing. Please check your environment configuration." };
     }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    const profile = SettingsStore.getActiveProfile();
+    const memories = await MemoryStore.relevant(newMessage);
+    const contents: Content[] = [
+      ...history
+        .filter(m => m.role !== 'system' && !m.isThinking && (m.content.trim() || m.attachments?.length))
+        .map(m => ({
+          role: m.role,
+          parts: [...attachmentPlaceholders(m.attachments), ...(m.content.trim() ? [{ text: m.content }] : [])]
+        })),
+      { role: 'user', parts: [...attachmentParts(options.attachments), { text: newMessage }] }
+    ];
     try {
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [
-          ...history.map(m => ({ role: m.role, parts: [{ text: m.content }] })),
-          { role: 'user', parts: [{ text: newMessage }] }
-        ],
-        config: { systemInstruction: SYSTEM_INSTRUCTION }
-      });
-      return { text: response.text || "Sorry Sir, connection mein kuch issue hai." };
+      let text = '';
+      const groundingChunks: GroundingChunk[] = [];
+      for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+        const stream = await provider.generateContentStream({
+          model: profile.chatModel,
+          contents,
+          config: {
+            systemInstruction: buildSystemInstruction(profile, memories),
+            tools: options.useSearchGrounding
+              ? [{ functionDeclarations: toolRegistry.declarations() }, { googleSearch: {} }]
+              : [{ functionDeclarations: toolRegistry.declarations() }]
+          }
+        });
+
+        const modelParts: Part[] = [];
+        const calls: FunctionCall[] = [];
+        for await (const chunk of stream) {
+          groundingChunks.push(...(chunk.candidates?.[0]?.groundingMetadata?.groundingChunks || []));
+          for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+            modelParts.push(part);
+            if (part.functionCall) {
+              calls.push(part.functionCall);
+            } else if (part.text && !part.thought) {
+              text += part.text;
+              onChunk?.(text);
+            }
+          }
+        }
+
+        if (calls.length === 0) break;
+
+        // Feed tool results back so the model can confirm what it did
+        contents.push({ role: 'model', parts: modelParts });
+        const responses: Part[] = [];
+        for (const fc of calls) {
+          const result = await executeToolCall(fc, onToolCallback);
+          responses.push({ functionResponse: { id: fc.id, name: fc.name, response: { result } } });
+        }
+        contents.push({ role: 'user', parts: responses });
+      }
+      const groundingUrls = extractGroundingUrls(groundingChunks);
+      return {
+        text: text || "Sorry Sir, connection mein kuch issue hai.",
+        groundingUrls: groundingUrls.length ? groundingUrls : undefined
+      };
     } catch (e) {
       console.error(e);
+      if (e instanceof UnsupportedContentError) return { text: e.message };
       return { text: "Error connecting to neural network." };
     }
   },
 
-  async generateImage(prompt: string): Promise<string | null> {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  async think(
+    question: string,
+    thinkingBudget: number,
+    onThought: (thoughts: string) => void,
+    onAnswer: (text: string) => void
+  ): Promise<{ thoughts: string; text: string }> {
+    const provider = getProvider();
+    if (!provider) {
+        return { thoughts: '', text: "API Key is missing. Please check your environment configuration." };
+    }
+    const profile = SettingsStore.getActiveProfile();
+    const memories = await MemoryStore.relevant(question);
+    let thoughts = '';
+    let text = '';
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: { parts: [{ text: prompt }] },
-        });
-        
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) {
-                return part.inlineData.data;
-            }
+      const stream = await provider.generateContentStream({
+        model: profile.thinkModel,
+        contents: [{ role: 'user', parts: [{ text: question }] }],
+        config: {
+          systemInstruction: buildSystemInstruction(profile, memories),
+          thinkingConfig: { thinkingBudget, includeThoughts: true }
         }
-        return null;
+      });
+
+      for await (const chunk of stream) {
+        for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+          if (!part.text) continue;
+          // Thought summaries arrive flagged with `thought`, the answer follows
+          if (part.thought) {
+            thoughts += part.text;
+            onThought(thoughts);
+          } else {
+            text += part.text;
+            onAnswer(text);
+          }
+        }
+      }
+      return { thoughts, text: text || "Sorry Sir, reasoning engine ne koi jawab nahi diya." };
+    } catch (e) {
+      console.error("Deep reasoning failed", e);
+      return { thoughts, text: "Error connecting to reasoning core." };
+    }
+  },
+
+  // Plain text of a PDF, so documents can be shared with the live session (which takes no PDFs)
+  async extractDocumentText(attachment: Attachment): Promise<string | null> {
+    const provider = getProvider();
+    if (!provider) return null;
+    try {
+      const response = await provider.generateContent({
+        model: SettingsStore.getActiveProfile().chatModel,
+        contents: [{
+          role: 'user',
+          parts: [
+            { inlineData: { mimeType: attachment.mimeType, data: attachment.data } },
+            { text: "Transcribe all text in this document as plain text, keeping headings, dates, figures and table rows. Output only the transcription." }
+          ]
+        }]
+      });
+      return response.text?.trim() || null;
+    } catch (e) {
+      console.error("Document text extraction failed", e);
+      return null;
+    }
+  },
+
+  // Pass `reference` to edit an existing image instead of starting from scratch
+  async generateImage(prompt: string, reference?: ImagePayload): Promise<GeneratedImage | null> {
+    const provider = getProvider();
+    if (!provider) return null;
+    const model = SettingsStore.getActiveProfile().imageModel;
+    try {
+        const image = await provider.generateImage({ model, prompt, reference });
+        return image ? { ...image, model } : null;
     } catch (e) {
         console.error("Image generation failed", e);
         return null;
@@ -185,65 +334,116 @@ export const JarvisService = {
 
   async connectLive(
     audioContext: AudioContext,
-    inputStream: MediaStream,
+    // Null skips microphone capture (scripted sessions and tests)
+    inputStream: MediaStream | null,
     onAudioData: (buffer: AudioBuffer) => void,
     onTranscript: (role: 'user' | 'model', text: string) => void,
     onStatusChange: (status: VoiceStatus) => void,
-    onToolCallback: (name: string, args: any) => Promise<any>,
+    onToolCallback: ToolCallback,
     onClose: () => void,
-    onError: (error: Error) => void
-  ) {
-    if (!process.env.API_KEY) {
+    onError: (error: Error) => void,
+    options: LiveOptions = {}
+  ): Promise<LiveSessionHandle> {
+    const provider = getProvider();
+    if (!provider) {
         throw new Error("API Key is missing in environment variables.");
     }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-    const source = audioContext.createMediaStreamSource(inputStream);
-    const processorWorkaroundGain = audioContext.createGain();
-    processorWorkaroundGain.gain.value = 0;
-    
-    const scriptProcessor = audioContext.createScriptProcessor(4096, 1, 1);
-    
+    const profile = SettingsStore.getActiveProfile();
+    // Loaded once per uplink; reconnects resume the same conversation
+    const memories = options.interpreter ? [] : await MemoryStore.relevant();
+
     let currentInputTranscription = '';
     let currentOutputTranscription = '';
+    let currentGroundingChunks: GroundingChunk[] = [];
     let silenceTimer: any = null;
     let isModelSpeaking = false;
 
-    const sessionPromise = ai.live.connect({
-      model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+    // Session state that survives reconnects
+    let session: LiveSession | null = null;
+    let isOpen = false;
+    let isUserClosed = false;
+    let resumptionHandle: string | undefined;
+    // Handle the current connection was opened with, and whether the server has spoken on it yet
+    let resumedWith: string | undefined;
+    let hasHeardFromServer = false;
+    let reconnectAttempt = 0;
+    let reconnectTimer: any = null;
+    let lastError: Error | null = null;
+    // Bumped on every drop, so work started on a dropped connection is not sent to its replacement
+    let generation = 0;
+    let isCloseReported = false;
+
+    const reportClose = () => {
+        if (isCloseReported) return;
+        isCloseReported = true;
+        onClose();
+    };
+
+    // Local gating sends explicit activity signals instead of relying on server VAD
+    const gateOptions = options.inputGate || { mode: 'always' };
+    const manualActivity = gateOptions.mode !== 'always';
+    const gate = createInputGate(
+        { ...gateOptions, sampleRate: 16000, onChange: options.onGateChange },
+        {
+            onStart: () => { if (isOpen) session?.sendRealtimeInput({ activityStart: {} }); },
+            onAudio: (pcm) => { if (isOpen) session?.sendRealtimeInput({ media: createPcmBlob(pcm) }); },
+            onEnd: () => { if (isOpen) session?.sendRealtimeInput({ activityEnd: {} }); },
+        }
+    );
+
+    // Reports the user's utterance once, as soon as the model starts answering
+    const flushUserTranscript = () => {
+        if (currentInputTranscription.trim()) {
+            onTranscript('user', currentInputTranscription.trim());
+        }
+        currentInputTranscription = '';
+    };
+
+    const resetTurnState = () => {
+        if (silenceTimer) clearTimeout(silenceTimer);
+        isModelSpeaking = false;
+        currentInputTranscription = '';
+        currentOutputTranscription = '';
+        currentGroundingChunks = [];
+    };
+
+    const openSession = () => {
+        resumedWith = resumptionHandle;
+        hasHeardFromServer = false;
+        return connect();
+    };
+
+    const connect = () => provider.connectLive({
+      model: profile.liveModel,
       callbacks: {
         onopen: () => {
             console.log("JARVIS Live Connection Established");
+            isOpen = true;
             onStatusChange('idle');
         },
         onmessage: async (msg: LiveServerMessage) => {
+            // 0. Session Management
+            // Only a session the server actually serves proves the link healthy again
+            if (!hasHeardFromServer) {
+                hasHeardFromServer = true;
+                reconnectAttempt = 0;
+                lastError = null;
+            }
+            if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+                resumptionHandle = msg.sessionResumptionUpdate.newHandle;
+            }
+            if (msg.goAway) {
+                console.warn(`JARVIS Live: server closing in ${msg.goAway.timeLeft}, will resume`);
+            }
+
             // 1. Handle Tool Calls
             if (msg.toolCall) {
+                flushUserTranscript();
                 onStatusChange('processing');
+                const callGeneration = generation;
                 const responses = [];
-                for (const fc of msg.toolCall.functionCalls) {
-                    console.log(`Executing Tool: ${fc.name}`, fc.args);
-                    let result = {};
-                    
-                    try {
-                        // Delegate all tool execution to the callback (App.tsx)
-                        if (['openWebsite', 'performGoogleSearch', 'playMedia', 'controlMedia', 'scrollPage', 'generateImage', 'lockSystem'].includes(fc.name)) {
-                             result = await onToolCallback(fc.name, fc.args);
-                        } else if (fc.name === 'getCurrentTime') {
-                             result = { time: new Date().toLocaleTimeString() };
-                        } else if (fc.name === 'getSystemStatus') {
-                             result = { 
-                                status: 'nominal', 
-                                platform: navigator.platform, 
-                                online: navigator.onLine,
-                                timestamp: Date.now()
-                            };
-                        }
-                    } catch (err) {
-                        console.error(`Tool Execution Failed: ${fc.name}`, err);
-                        result = { error: 'Execution failed', details: String(err) };
-                    }
-
+                for (const fc of msg.toolCall.functionCalls || []) {
+                    const result = await executeToolCall(fc, onToolCallback);
                     responses.push({
                         id: fc.id,
                         name: fc.name,
@@ -251,15 +451,31 @@ export const JarvisService = {
                     });
                 }
                 
-                sessionPromise.then(session => {
-                    session.sendToolResponse({ functionResponses: responses });
-                });
+                // A reconnected session never issued these calls
+                if (isOpen && callGeneration === generation) {
+                    session?.sendToolResponse({ functionResponses: responses });
+                }
+            }
+            // Search grounding sources for the current model turn
+            if (msg.serverContent?.groundingMetadata?.groundingChunks) {
+                currentGroundingChunks.push(...msg.serverContent.groundingMetadata.groundingChunks);
+            }
+
+            // Barge-in: the server discards the rest of the model turn
+            if (msg.serverContent?.interrupted) {
+                isModelSpeaking = false;
+                if (currentOutputTranscription.trim()) {
+                    onTranscript('model', `${currentOutputTranscription.trim()} [interrupted]`);
+                }
+                currentOutputTranscription = '';
+                options.onInterrupted?.();
             }
 
             // 2. User Input Transcription
             if (msg.serverContent?.inputTranscription) {
                 currentInputTranscription += msg.serverContent.inputTranscription.text;
-                
+                options.onUserSpeech?.(currentInputTranscription);
+
                 if (!isModelSpeaking) {
                     onStatusChange('listening');
                 }
@@ -273,16 +489,20 @@ export const JarvisService = {
                 }, 800);
             }
 
+            // Model speech transcription may arrive apart from the audio chunks
+            if (msg.serverContent?.outputTranscription?.text) {
+                flushUserTranscript();
+                currentOutputTranscription += msg.serverContent.outputTranscription.text;
+                options.onModelSpeech?.(currentOutputTranscription);
+            }
+
             // 3. Audio Output
             const base64Audio = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
             if (base64Audio) {
                 if (silenceTimer) clearTimeout(silenceTimer);
+                flushUserTranscript();
                 isModelSpeaking = true;
                 onStatusChange('speaking');
-                
-                if (msg.serverContent?.outputTranscription) {
-                    currentOutputTranscription += msg.serverContent.outputTranscription.text;
-                }
 
                 const audioBuffer = await decodeAudioData(
                     base64ToUint8Array(base64Audio), 
@@ -298,59 +518,144 @@ export const JarvisService = {
                 isModelSpeaking = false;
                 if (silenceTimer) clearTimeout(silenceTimer);
                 
+                flushUserTranscript();
+                // Sources first, so they can be attached to the transcript that follows
+                if (currentGroundingChunks.length) {
+                    options.onGrounding?.(extractGroundingUrls(currentGroundingChunks));
+                }
                 if (currentOutputTranscription.trim()) {
                     onTranscript('model', currentOutputTranscription);
                 }
                 
                 currentInputTranscription = '';
                 currentOutputTranscription = '';
+                currentGroundingChunks = [];
                 
                 onStatusChange('idle');
             }
         },
-        onclose: () => {
-            console.log("JARVIS Live Connection Closed");
-            onClose();
+        onclose: (event?: CloseEvent) => {
+            console.log("JARVIS Live Connection Closed", event?.code, event?.reason);
+            isOpen = false;
+            generation++;
+            if (isUserClosed) {
+                reportClose();
+                return;
+            }
+            // A handle the server refuses would fail every retry the same way; start fresh instead
+            const resumeRejected = !!resumedWith && !hasHeardFromServer;
+            if (resumeRejected) resumptionHandle = undefined;
+            if (event && FATAL_CLOSE_CODES.has(event.code) && !resumeRejected) {
+                resetTurnState();
+                onError(new Error(event.reason || `Live session rejected by the server (code ${event.code})`));
+                reportClose();
+                return;
+            }
+            scheduleReconnect();
         },
         onerror: (err) => {
+            // A close event always follows; reconnection is decided there
             console.error("JARVIS Live Error", err);
-            onError(err instanceof Error ? err : new Error("Network connection error"));
-            onClose();
+            lastError = err instanceof Error ? err : new Error("Network connection error");
         }
       },
       config: {
         responseModalities: [Modality.AUDIO],
         inputAudioTranscription: {},
         outputAudioTranscription: {},
-        tools: [{ functionDeclarations: tools }],
+        tools: options.interpreter
+            ? undefined
+            : options.useSearchGrounding
+            ? [{ functionDeclarations: toolRegistry.declarations() }, { googleSearch: {} }]
+            : [{ functionDeclarations: toolRegistry.declarations() }],
         speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' } }
+            voiceConfig: { prebuiltVoiceConfig: { voiceName: profile.voice } }
         },
-        systemInstruction: SYSTEM_INSTRUCTION,
+        systemInstruction: options.interpreter
+            ? buildInterpreterInstruction(options.interpreter)
+            : buildSystemInstruction(profile, memories),
+        // Resume the previous conversation after a drop; compress long sessions
+        sessionResumption: { handle: resumptionHandle },
+        contextWindowCompression: { slidingWindow: {} },
+        realtimeInputConfig: manualActivity ? { automaticActivityDetection: { disabled: true } } : undefined,
       }
     });
 
-    const session = await sessionPromise;
+    const scheduleReconnect = () => {
+        resetTurnState();
+        if (reconnectAttempt >= MAX_RECONNECT_ATTEMPTS) {
+            onError(lastError || new Error("Network connection lost"));
+            reportClose();
+            return;
+        }
+        options.onConnectionStateChange?.('reconnecting');
+        const delay = Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempt)
+            + Math.random() * 250;
+        reconnectAttempt++;
+        console.log(`JARVIS Live: reconnecting in ${Math.round(delay)}ms (attempt ${reconnectAttempt})`);
 
-    scriptProcessor.onaudioprocess = (e) => {
-        const inputData = e.inputBuffer.getChannelData(0);
-        // CRITICAL: Resample to 16kHz if necessary, otherwise Gemini returns 503
-        const downsampledData = downsampleBuffer(inputData, audioContext.sampleRate, 16000);
-        const pcmBlob = createPcmBlob(downsampledData);
-        session.sendRealtimeInput({ media: pcmBlob });
+        reconnectTimer = setTimeout(async () => {
+            reconnectTimer = null;
+            if (isUserClosed) return;
+            try {
+                session = await openSession();
+                if (isUserClosed) {
+                    session.close();
+                    return;
+                }
+                // The new session never saw the start of an utterance still in progress
+                if (manualActivity && gate.isOpen()) session.sendRealtimeInput({ activityStart: {} });
+                options.onConnectionStateChange?.('connected');
+            } catch (err) {
+                if (isUserClosed) return;
+                lastError = err instanceof Error ? err : new Error(String(err));
+                scheduleReconnect();
+            }
+        }, delay);
     };
-    
-    source.connect(scriptProcessor);
-    scriptProcessor.connect(processorWorkaroundGain);
-    processorWorkaroundGain.connect(audioContext.destination);
+
+    session = await openSession();
+
+    let capture: AudioCapture | null = null;
+    try {
+        // CRITICAL: Capture is resampled to 16kHz, otherwise Gemini returns 503
+        if (inputStream) capture = await createAudioCapture(
+            audioContext,
+            inputStream,
+            (pcm) => gate.push(pcm),
+            { chunkMs: options.captureChunkMs }
+        );
+    } catch (err) {
+        isUserClosed = true;
+        session.close();
+        throw err;
+    }
 
     return {
+        sendVideoFrame: (base64Jpeg: string) => {
+            if (isOpen) session?.sendRealtimeInput({ media: { data: base64Jpeg, mimeType: 'image/jpeg' } });
+        },
+        setTalking: (pressed: boolean) => gate.setPressed(pressed),
+        sendText: (text: string) => {
+            // An interpreter would only translate the announcement
+            if (options.interpreter) return;
+            if (isOpen) session?.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+        },
+        sendContext: (parts: Part[]) => {
+            if (options.interpreter) return;
+            if (isOpen) session?.sendClientContent({ turns: [{ role: 'user', parts }], turnComplete: false });
+        },
         disconnect: async () => {
-            source.disconnect();
-            scriptProcessor.disconnect();
-            processorWorkaroundGain.disconnect();
+            gate.close();
+            isUserClosed = true;
+            capture?.disconnect();
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            reconnectTimer = null;
             if (silenceTimer) clearTimeout(silenceTimer);
-            await session.close();
+            const wasOpen = isOpen;
+            await session?.close();
+            // Between connections (waiting to reconnect) no close event will follow
+            if (!wasOpen) reportClose();
         }
     };
   }
@@ -0,0 +1,31 @@
+// @vitest-environment happy-dom
+import { afterEach, describe, expect, it } from 'vitest';
+import { LockService } from './lockService';
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+describe('LockService locked flag', () => {
+  it('survives a reload once a passcode exists', async () => {
+    await LockService.setCredential('1234');
+    LockService.setLocked(true);
+
+    // A reload re-reads storage; nothing is cached in memory
+    expect(LockService.isLocked()).toBe(true);
+
+    expect((await LockService.verify('1234')).ok).toBe(true);
+    LockService.setLocked(false);
+    expect(LockService.isLocked()).toBe(false);
+  });
+
+  it('never reports locked without a passcode to unlock with', async () => {
+    LockService.setLocked(true);
+    expect(LockService.isLocked()).toBe(false);
+
+    await LockService.setCredential('1234');
+    LockService.setLocked(true);
+    LockService.clearCredential();
+    expect(LockService.isLocked()).toBe(false);
+  });
+});
@@ -0,0 +1,137 @@
+// Local passcode lock: salted PBKDF2 hash, idle timeout and attempt throttling
+
+import { arrayBufferToBase64, base64ToUint8Array } from "./audioUtils";
+
+interface StoredCredential {
+  salt: string;
+  hash: string;
+  iterations: number;
+}
+
+interface AttemptState {
+  failures: number;
+  lockedUntil: number;
+}
+
+export interface UnlockResult {
+  ok: boolean;
+  reason?: 'invalid' | 'rate_limited' | 'not_configured';
+  retryAfterMs?: number;
+}
+
+const CREDENTIAL_KEY = 'jarvis.lock.credential';
+const ATTEMPTS_KEY = 'jarvis.lock.attempts';
+const IDLE_KEY = 'jarvis.lock.idleMinutes';
+const LOCKED_KEY = 'jarvis.lock.locked';
+
+const PBKDF2_ITERATIONS = 210000;
+const MIN_SECRET_LENGTH = 4;
+// Free attempts before throttling kicks in, then 30s doubling up to 15 min
+const FREE_ATTEMPTS = 3;
+const BASE_LOCKOUT_MS = 30000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+
+async function deriveHash(secret: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(secret), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256);
+  return new Uint8Array(bits);
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) as T : null;
+  } catch (e) {
+    return null;
+  }
+}
+
+function readAttempts(): AttemptState {
+  return readJson<AttemptState>(ATTEMPTS_KEY) || { failures: 0, lockedUntil: 0 };
+}
+
+export const LockService = {
+  hasCredential(): boolean {
+    return readJson<StoredCredential>(CREDENTIAL_KEY) !== null;
+  },
+
+  validateSecret(secret: string): string | null {
+    if (secret.length < MIN_SECRET_LENGTH) return `Passcode must be at least ${MIN_SECRET_LENGTH} characters.`;
+    return null;
+  },
+
+  async setCredential(secret: string): Promise<void> {
+    const invalid = LockService.validateSecret(secret);
+    if (invalid) throw new Error(invalid);
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    const hash = await deriveHash(secret, salt, PBKDF2_ITERATIONS);
+    const stored: StoredCredential = {
+      salt: arrayBufferToBase64(salt.buffer),
+      hash: arrayBufferToBase64(hash.buffer),
+      iterations: PBKDF2_ITERATIONS,
+    };
+    localStorage.setItem(CREDENTIAL_KEY, JSON.stringify(stored));
+    localStorage.removeItem(ATTEMPTS_KEY);
+  },
+
+  clearCredential() {
+    localStorage.removeItem(CREDENTIAL_KEY);
+    localStorage.removeItem(ATTEMPTS_KEY);
+    localStorage.removeItem(LOCKED_KEY);
+  },
+
+  // Milliseconds until another attempt is allowed (0 = now)
+  getRetryDelayMs(): number {
+    return Math.max(0, readAttempts().lockedUntil - Date.now());
+  },
+
+  async verify(secret: string): Promise<UnlockResult> {
+    const stored = readJson<StoredCredential>(CREDENTIAL_KEY);
+    if (!stored) return { ok: false, reason: 'not_configured' };
+
+    const retryAfterMs = LockService.getRetryDelayMs();
+    if (retryAfterMs > 0) return { ok: false, reason: 'rate_limited', retryAfterMs };
+
+    const hash = await deriveHash(secret, base64ToUint8Array(stored.salt), stored.iterations);
+    if (constantTimeEqual(hash, base64ToUint8Array(stored.hash))) {
+      localStorage.removeItem(ATTEMPTS_KEY);
+      return { ok: true };
+    }
+
+    const attempts = readAttempts();
+    attempts.failures++;
+    if (attempts.failures >= FREE_ATTEMPTS) {
+      const lockout = Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (attempts.failures - FREE_ATTEMPTS));
+      attempts.lockedUntil = Date.now() + lockout;
+    }
+    localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(attempts));
+    return { ok: false, reason: 'invalid', retryAfterMs: LockService.getRetryDelayMs() || undefined };
+  },
+
+  // Persisted so a reload lands back on the lock screen; never locked without a passcode to unlock with
+  isLocked(): boolean {
+    return localStorage.getItem(LOCKED_KEY) === 'true' && LockService.hasCredential();
+  },
+
+  setLocked(locked: boolean) {
+    if (locked) localStorage.setItem(LOCKED_KEY, 'true');
+    else localStorage.removeItem(LOCKED_KEY);
+  },
+
+  // 0 disables auto-lock
+  getIdleMinutes(): number {
+    const value = Number(localStorage.getItem(IDLE_KEY));
+    return Number.isFinite(value) && value >= 0 ? value : 0;
+  },
+
+  setIdleMinutes(minutes: number) {
+    localStorage.setItem(IDLE_KEY, String(Math.max(0, Math.round(minutes))));
+  },
+};
@@ -0,0 +1,246 @@
+// Embedded dashboard player: queue and playback state, played through the engine the player panel mounts
+
+export type MediaSource = 'youtube' | 'file';
+
+export interface MediaTrack {
+  id: string;
+  source: MediaSource;
+  // YouTube video id, or a direct audio/video URL
+  ref: string;
+  title: string;
+}
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused' | 'ended' | 'error';
+
+export interface PlayerState {
+  queue: MediaTrack[];
+  // -1 while nothing is loaded
+  index: number;
+  status: PlaybackStatus;
+  // 0-100
+  volume: number;
+  muted: boolean;
+  // Seconds
+  position: number;
+  duration: number;
+}
+
+// Implemented by the player panel; one engine covers both YouTube and plain media elements
+export interface MediaEngine {
+  load: (track: MediaTrack, autoplay: boolean) => void;
+  play: () => void;
+  pause: () => void;
+  seekTo: (seconds: number) => void;
+  setVolume: (volume: number, muted: boolean) => void;
+  position: () => number;
+  duration: () => number;
+}
+
+type Listener = (state: PlayerState) => void;
+
+// "Previous" restarts the current track once it has played this long
+const RESTART_THRESHOLD_S = 3;
+
+const YOUTUBE_ID = /(?:youtube\.com\/(?:watch\?(?:.*&)?v=|shorts\/|embed\/|live\/)|youtu\.be\/)([\w-]{11})/;
+const MEDIA_FILE = /\.(mp3|m4a|aac|ogg|oga|opus|wav|flac|mp4|m4v|webm|ogv)(\?|#|$)/i;
+
+let state: PlayerState = { queue: [], index: -1, status: 'idle', volume: 80, muted: false, position: 0, duration: 0 };
+let engine: MediaEngine | null = null;
+const listeners = new Set<Listener>();
+
+const set = (patch: Partial<PlayerState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(l => l(state));
+};
+
+const current = () => state.queue[state.index] || null;
+
+const clampVolume = (volume: number) => Math.round(Math.min(100, Math.max(0, volume)));
+
+function startTrack(index: number) {
+  set({ index, status: 'loading', position: 0, duration: 0 });
+  engine?.load(state.queue[index], true);
+}
+
+export const MediaPlayer = {
+  // Snapshot with the live position read from the engine
+  state(): PlayerState {
+    if (!engine || !current()) return state;
+    return { ...state, position: engine.position() || state.position, duration: engine.duration() || state.duration };
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(state);
+    return () => { listeners.delete(listener); };
+  },
+
+  // Called by the panel once its player elements exist; resumes whatever was queued
+  attach(next: MediaEngine): () => void {
+    engine = next;
+    engine.setVolume(state.volume, state.muted);
+    const track = current();
+    if (track) engine.load(track, state.status === 'loading' || state.status === 'playing');
+    return () => { if (engine === next) engine = null; };
+  },
+
+  // Replaces the queue and starts the first track, or appends when `enqueue` is set
+  load(tracks: MediaTrack[], enqueue = false) {
+    if (tracks.length === 0) return;
+    if (enqueue && state.queue.length > 0) {
+      const wasFinished = state.status === 'ended' || state.status === 'error';
+      set({ queue: [...state.queue, ...tracks] });
+      if (wasFinished) startTrack(state.index + 1);
+      return;
+    }
+    set({ queue: tracks });
+    startTrack(0);
+  },
+
+  play(): boolean {
+    if (!current()) return false;
+    if (state.status === 'ended' || state.status === 'error') {
+      startTrack(state.index);
+    } else {
+      engine?.play();
+      set({ status: 'playing' });
+    }
+    return true;
+  },
+
+  pause(): boolean {
+    if (!current()) return false;
+    engine?.pause();
+    set({ status: 'paused', position: engine?.position() ?? state.position });
+    return true;
+  },
+
+  next(): boolean {
+    if (state.index + 1 >= state.queue.length) return false;
+    startTrack(state.index + 1);
+    return true;
+  },
+
+  previous(): boolean {
+    if (!current()) return false;
+    if (state.index === 0 || MediaPlayer.state().position > RESTART_THRESHOLD_S) {
+      MediaPlayer.seek(0);
+    } else {
+      startTrack(state.index - 1);
+    }
+    return true;
+  },
+
+  // Jump to a queue position (0-based)
+  skipTo(index: number): boolean {
+    if (index < 0 || index >= state.queue.length) return false;
+    startTrack(index);
+    return true;
+  },
+
+  seek(seconds: number): boolean {
+    if (!current()) return false;
+    const { duration } = MediaPlayer.state();
+    const target = Math.max(0, duration ? Math.min(seconds, duration) : seconds);
+    engine?.seekTo(target);
+    set({ position: target });
+    return true;
+  },
+
+  setVolume(volume: number) {
+    set({ volume: clampVolume(volume), muted: false });
+    engine?.setVolume(state.volume, state.muted);
+  },
+
+  setMuted(muted: boolean) {
+    set({ muted });
+    engine?.setVolume(state.volume, state.muted);
+  },
+
+  remove(index: number) {
+    if (index < 0 || index >= state.queue.length) return;
+    if (index === state.index) {
+      const queue = state.queue.filter((_, i) => i !== index);
+      if (queue.length === 0) return MediaPlayer.stop();
+      set({ queue });
+      startTrack(Math.min(index, queue.length - 1));
+      return;
+    }
+    set({ queue: state.queue.filter((_, i) => i !== index), index: index < state.index ? state.index - 1 : state.index });
+  },
+
+  // Stops playback and empties the queue, which also hides the panel
+  stop() {
+    engine?.pause();
+    set({ queue: [], index: -1, status: 'idle', position: 0, duration: 0 });
+  },
+
+  // Engine events for the track with this id; stale reports from a previous track are dropped
+  report(trackId: string, patch: { status?: PlaybackStatus; duration?: number; title?: string }) {
+    const track = current();
+    if (!track || track.id !== trackId) return;
+    if (patch.title && patch.title !== track.title) {
+      set({ queue: state.queue.map(t => t.id === trackId ? { ...t, title: patch.title! } : t) });
+    }
+    if (patch.duration) set({ duration: patch.duration });
+    if (!patch.status) return;
+    // Finished or unplayable tracks advance through the queue
+    if ((patch.status === 'ended' || patch.status === 'error') && MediaPlayer.next()) return;
+    set({ status: patch.status, position: engine?.position() ?? state.position });
+  },
+
+  // Compact state for the model
+  summary() {
+    const s = MediaPlayer.state();
+    return {
+      status: s.status,
+      nowPlaying: s.queue[s.index]?.title ?? null,
+      position: Math.round(s.position),
+      duration: Math.round(s.duration),
+      volume: s.volume,
+      muted: s.muted,
+      queuePosition: s.index + 1,
+      upNext: s.queue.slice(s.index + 1, s.index + 6).map(t => t.title),
+      queueLength: s.queue.length,
+    };
+  },
+};
+
+const decodeEntities = (text: string) =>
+  new DOMParser().parseFromString(text, 'text/html').documentElement.textContent || text;
+
+const fileTitle = (url: string) => {
+  const name = url.split(/[?#]/)[0].split('/').pop() || url;
+  try {
+    return decodeURIComponent(name);
+  } catch {
+    return name;
+  }
+};
+
+// Turns a query, YouTube link or direct media URL into playable tracks.
+// Searching needs YOUTUBE_API_KEY; without it only links resolve and callers fall back to a search tab.
+export async function findMedia(query: string, type: 'video' | 'short' = 'video', limit = 5): Promise<MediaTrack[]> {
+  const text = query.trim();
+  const youtubeId = text.match(YOUTUBE_ID)?.[1];
+  if (youtubeId) return [{ id: crypto.randomUUID(), source: 'youtube', ref: youtubeId, title: text }];
+  if (/^https?:\/\//i.test(text)) {
+    return MEDIA_FILE.test(text) ? [{ id: crypto.randomUUID(), source: 'file', ref: text, title: fileTitle(text) }] : [];
+  }
+
+  const key = process.env.YOUTUBE_API_KEY;
+  if (!key) return [];
+  const params = new URLSearchParams({ part: 'snippet', type: 'video', videoEmbeddable: 'true', maxResults: String(limit), q: text, key });
+  if (type === 'short') params.set('videoDuration', 'short');
+  const response = await fetch(`https://www.googleapis.com/youtube/v3/search?${params}`);
+  if (!response.ok) throw new Error(`YouTube search failed with ${response.status}`);
+  const json = await response.json();
+  return (json.items || [])
+    .filter((item: any) => item.id?.videoId)
+    .map((item: any): MediaTrack => ({
+      id: crypto.randomUUID(),
+      source: 'youtube',
+      ref: item.id.videoId,
+      title: decodeEntities(item.snippet?.title || text),
+    }));
+}
@@ -0,0 +1,91 @@
+// Long-term facts about the user, kept in IndexedDB and fed back into the system instruction
+
+import { STORES, requestToPromise, withStore } from "./db";
+
+export type MemoryCategory = 'preference' | 'person' | 'task' | 'other';
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['preference', 'person', 'task', 'other'];
+
+export interface MemoryFact {
+  id: string;
+  text: string;
+  category: MemoryCategory;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Cap on facts injected into a system instruction
+const PROMPT_MEMORY_LIMIT = 25;
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+const termsOf = (text: string) => normalize(text).split(/[^\p{L}\p{N}]+/u).filter(t => t.length > 2);
+
+export const MemoryStore = {
+  // Most recently updated first
+  async list(): Promise<MemoryFact[]> {
+    try {
+      const facts = await withStore(STORES.memories, 'readonly', store =>
+        requestToPromise(store.index('updatedAt').getAll() as IDBRequest<MemoryFact[]>)
+      );
+      return facts.reverse();
+    } catch (e) {
+      console.error("Memory store unavailable", e);
+      return [];
+    }
+  },
+
+  // Re-remembering the same fact refreshes it instead of adding a duplicate
+  async remember(text: string, category: MemoryCategory = 'other'): Promise<MemoryFact> {
+    const existing = (await MemoryStore.list()).find(f => normalize(f.text) === normalize(text));
+    const now = new Date();
+    const fact: MemoryFact = existing
+      ? { ...existing, category, updatedAt: now }
+      : { id: crypto.randomUUID(), text: text.trim(), category, createdAt: now, updatedAt: now };
+    await withStore(STORES.memories, 'readwrite', store => requestToPromise(store.put(fact)));
+    return fact;
+  },
+
+  async update(id: string, patch: Partial<Pick<MemoryFact, 'text' | 'category'>>): Promise<MemoryFact | null> {
+    return withStore(STORES.memories, 'readwrite', async store => {
+      const current = await requestToPromise(store.get(id) as IDBRequest<MemoryFact | undefined>);
+      if (!current) return null;
+      const fact: MemoryFact = { ...current, ...patch, updatedAt: new Date() };
+      await requestToPromise(store.put(fact));
+      return fact;
+    });
+  },
+
+  async forget(id: string): Promise<boolean> {
+    return withStore(STORES.memories, 'readwrite', async store => {
+      const current = await requestToPromise(store.get(id));
+      if (!current) return false;
+      await requestToPromise(store.delete(id));
+      return true;
+    });
+  },
+
+  async clear(): Promise<void> {
+    await withStore(STORES.memories, 'readwrite', store => requestToPromise(store.clear()));
+  },
+
+  // Facts sharing the most terms with the query rank first; recency breaks ties
+  rank(facts: MemoryFact[], query: string): MemoryFact[] {
+    const terms = new Set(termsOf(query));
+    if (terms.size === 0) return facts;
+    return facts
+      .map((fact, index) => ({ fact, index, score: termsOf(`${fact.text} ${fact.category}`).filter(t => terms.has(t)).length }))
+      .filter(r => r.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .map(r => r.fact);
+  },
+
+  // Memories worth putting in front of the model for a conversation about `query`
+  async relevant(query?: string, limit = PROMPT_MEMORY_LIMIT): Promise<MemoryFact[]> {
+    const facts = await MemoryStore.list();
+    if (!query) return facts.slice(0, limit);
+    const matches = MemoryStore.rank(facts, query);
+    // Top up with recent facts so standing preferences are always present
+    const picked = new Set(matches.map(f => f.id));
+    return [...matches, ...facts.filter(f => !picked.has(f.id))].slice(0, limit);
+  },
+};
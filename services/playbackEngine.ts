@@ -0,0 +1,118 @@
+// Gapless playback of streamed model audio, scheduled on the audio clock
+
+import { selectOutputDevice } from "./audioUtils";
+
+export interface PlaybackEngine {
+  readonly context: AudioContext;
+  // Tap on everything the engine plays, for level metering
+  readonly analyser: AnalyserNode;
+  enqueue: (buffer: AudioBuffer) => void;
+  // Stops everything immediately (barge-in)
+  flush: () => void;
+  // Seconds of the current utterance already played out
+  getPlaybackPosition: () => number;
+  isPlaying: () => boolean;
+  resume: () => Promise<void>;
+  // Routes playback to an output device ('' for the system default) where the browser allows it
+  setOutputDevice: (deviceId: string) => Promise<void>;
+  close: () => Promise<void>;
+}
+
+export interface PlaybackEngineOptions {
+  sampleRate?: number;
+  // Head start for the first chunk so early jitter doesn't cause underruns
+  leadTime?: number;
+  onPlayingChange?: (playing: boolean) => void;
+}
+
+export function createPlaybackEngine(options: PlaybackEngineOptions = {}): PlaybackEngine {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: options.sampleRate ?? 24000 });
+  const leadTime = options.leadTime ?? 0.05;
+  const output = ctx.createGain();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  analyser.smoothingTimeConstant = 0.7;
+  output.connect(analyser);
+  analyser.connect(ctx.destination);
+
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  let utteranceStart = 0;
+  let scheduledDuration = 0;
+
+  const setIdle = () => {
+    nextStartTime = 0;
+    scheduledDuration = 0;
+    options.onPlayingChange?.(false);
+  };
+
+  const flush = () => {
+    if (sources.size === 0) return;
+    for (const source of sources) {
+      source.onended = null;
+      try {
+        source.stop();
+      } catch (e) { /* already stopped */ }
+      source.disconnect();
+    }
+    sources.clear();
+    setIdle();
+  };
+
+  return {
+    context: ctx,
+    analyser,
+
+    enqueue(buffer: AudioBuffer) {
+      if (ctx.state === 'suspended') ctx.resume();
+
+      const now = ctx.currentTime;
+      if (sources.size === 0 || nextStartTime < now) {
+        // Starting fresh (or we underran): re-anchor slightly in the future
+        nextStartTime = now + leadTime;
+        if (sources.size === 0) {
+          utteranceStart = nextStartTime;
+          scheduledDuration = 0;
+          options.onPlayingChange?.(true);
+        }
+      }
+
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(output);
+      source.onended = () => {
+        sources.delete(source);
+        if (sources.size === 0) setIdle();
+      };
+      source.start(nextStartTime);
+      sources.add(source);
+
+      nextStartTime += buffer.duration;
+      scheduledDuration += buffer.duration;
+    },
+
+    flush,
+
+    getPlaybackPosition() {
+      if (sources.size === 0) return 0;
+      return Math.min(scheduledDuration, Math.max(0, ctx.currentTime - utteranceStart));
+    },
+
+    isPlaying() {
+      return sources.size > 0;
+    },
+
+    async resume() {
+      if (ctx.state === 'suspended') await ctx.resume();
+    },
+
+    setOutputDevice: (deviceId) => selectOutputDevice(ctx, deviceId),
+
+    async close() {
+      flush();
+      output.disconnect();
+      analyser.disconnect();
+      await ctx.close();
+    }
+  };
+}
@@ -0,0 +1,129 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ChildProcess, spawn } from 'node:child_process';
+import { LiveServerMessage, Type } from '@google/genai';
+import { createPcmBlob } from '../audioUtils';
+import { createOpenAIClient } from './openaiClient';
+import { createCascadedSession } from './cascadedLive';
+import { UnsupportedContentError } from './types';
+
+const CASCADE = { sttModel: 'mock-stt', ttsModel: 'mock-tts', ttsVoice: 'alloy' };
+
+let server: ChildProcess;
+let baseUrl: string;
+
+// The mock server picks a free port and logs its URL once listening
+beforeAll(async () => {
+  server = spawn(process.execPath, ['scripts/mock-openai-server.mjs', '0'], { stdio: ['ignore', 'pipe', 'inherit'] });
+  baseUrl = await new Promise<string>((resolve, reject) => {
+    let output = '';
+    server.stdout!.on('data', (chunk) => {
+      output += chunk;
+      const url = output.match(/http:\/\/localhost:\d+\/v1/)?.[0];
+      if (url) resolve(url);
+    });
+    server.on('exit', (code) => reject(new Error(`Mock server exited with ${code}`)));
+  });
+});
+
+afterAll(() => {
+  server?.kill();
+});
+
+// Collects what the cascade emits and resolves once a turn completes
+function openSession() {
+  const messages: LiveServerMessage[] = [];
+  let onTurnComplete = () => {};
+  const session = createCascadedSession(createOpenAIClient({ baseUrl }), CASCADE, {
+    model: 'mock-chat',
+    config: {
+      systemInstruction: 'You are JARVIS.',
+      tools: [{ functionDeclarations: [{ name: 'getCurrentTime', description: 'Current time', parameters: { type: Type.OBJECT, properties: {} } }] }],
+      // Client-side activity signals, as with push-to-talk
+      realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+    },
+    callbacks: {
+      onmessage: (message) => {
+        messages.push(message);
+        if (message.toolCall) {
+          session.sendToolResponse({
+            functionResponses: message.toolCall.functionCalls!.map(fc => ({ id: fc.id, name: fc.name, response: { result: '10:00' } })),
+          });
+        }
+        if (message.serverContent?.turnComplete) onTurnComplete();
+      },
+    },
+  });
+  const turnComplete = new Promise<void>(resolve => { onTurnComplete = resolve; });
+  return { session, messages, turnComplete };
+}
+
+describe('cascaded live session against the mock server', () => {
+  it('transcribes speech, runs the requested tool and speaks the answer', async () => {
+    const { session, messages, turnComplete } = openSession();
+
+    // Half a second of tone stands in for speech; the mock transcribes anything as a question about the time
+    const speech = Float32Array.from({ length: 8000 }, (_, i) => 0.3 * Math.sin(2 * Math.PI * 220 * i / 16000));
+    session.sendRealtimeInput({ activityStart: {} });
+    session.sendRealtimeInput({ media: createPcmBlob(speech) });
+    session.sendRealtimeInput({ activityEnd: {} });
+    await turnComplete;
+    session.close();
+
+    expect(messages[0].serverContent?.inputTranscription?.text).toBe('What time is it?');
+    expect(messages[1].toolCall?.functionCalls?.[0].name).toBe('getCurrentTime');
+    expect(messages[2].serverContent?.outputTranscription?.text).toBe('Tool result received: {"result":"10:00"}');
+
+    const audio = messages.flatMap(m => m.serverContent?.modelTurn?.parts || []).map(p => p.inlineData!);
+    expect(audio.length).toBeGreaterThan(0);
+    expect(audio.every(a => a.mimeType === 'audio/pcm;rate=24000')).toBe(true);
+    expect(messages.at(-1)?.serverContent?.turnComplete).toBe(true);
+  });
+
+  it('answers text turns without going through speech-to-text', async () => {
+    const { session, messages, turnComplete } = openSession();
+
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: 'Hello there' }] }], turnComplete: true });
+    await turnComplete;
+    session.close();
+
+    expect(messages.some(m => m.serverContent?.inputTranscription)).toBe(false);
+    expect(messages[0].serverContent?.outputTranscription?.text).toBe('Mock reply to: Hello there');
+  });
+
+  it('forwards shared images to the chat model', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const { session, turnComplete } = openSession();
+
+    session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ text: 'Shared photo.png' }, { inlineData: { mimeType: 'image/png', data: 'AAAA' } }] }],
+      turnComplete: false,
+    });
+    session.sendClientContent({ turns: [{ role: 'user', parts: [{ text: 'What is in the photo?' }] }], turnComplete: true });
+    await turnComplete;
+    session.close();
+
+    const chatCall = fetchSpy.mock.calls.find(([url]) => String(url).endsWith('/chat/completions'))!;
+    fetchSpy.mockRestore();
+    const { messages } = JSON.parse(chatCall[1]!.body as string);
+    expect(messages.slice(1)).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Shared photo.png' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        ],
+      },
+      { role: 'user', content: 'What is in the photo?' },
+    ]);
+  });
+
+  it('refuses shared files the chat model cannot read', () => {
+    const { session } = openSession();
+
+    expect(() => session.sendClientContent({
+      turns: [{ role: 'user', parts: [{ inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } }] }],
+      turnComplete: false,
+    })).toThrow(UnsupportedContentError);
+    session.close();
+  });
+});
@@ -0,0 +1,210 @@
+// Live session emulated as speech-to-text -> chat -> text-to-speech over OpenAI-compatible endpoints.
+// Emits the same LiveServerMessage shapes as the Gemini Live API so connectLive needs no changes.
+
+import { LiveConnectParameters, LiveServerMessage } from "@google/genai";
+import { arrayBufferToBase64, encodeWav, pcm16ToFloat32 } from "../audioUtils";
+import { createInputGate } from "../inputGate";
+import { LiveSession } from "./types";
+import { ChatMessage, OpenAIClient, textOf, toChatMessages, toChatTools, toFunctionCall } from "./openaiClient";
+
+export interface CascadeConfig {
+  sttModel: string;
+  ttsModel: string;
+  ttsVoice: string;
+}
+
+const INPUT_RATE = 16000;
+const OUTPUT_RATE = 24000;
+// Utterances shorter than this are treated as noise
+const MIN_UTTERANCE_SAMPLES = INPUT_RATE / 4;
+// Speech is streamed back in slices so playback starts before the whole reply arrives
+const AUDIO_SLICE_BYTES = OUTPUT_RATE * 2 / 2;
+const MAX_TOOL_ROUNDS = 5;
+
+const concat = (chunks: Float32Array[]) => {
+  const out = new Float32Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    out.set(c, offset);
+    offset += c.length;
+  }
+  return out;
+};
+
+export function createCascadedSession(client: OpenAIClient, cascade: CascadeConfig, params: LiveConnectParameters): LiveSession {
+  const { callbacks, config = {} } = params;
+  const systemInstruction = textOf(config.systemInstruction);
+  const tools = toChatTools(config.tools);
+  const history: ChatMessage[] = [];
+
+  let closed = false;
+  let utterance: Float32Array[] = [];
+  let latestFrame: string | null = null;
+  let turn: AbortController | null = null;
+  let queue = Promise.resolve();
+  const pendingTools = new Map<string, (result: unknown) => void>();
+
+  const emit = (message: Partial<LiveServerMessage>) => {
+    if (!closed) callbacks.onmessage(Object.assign(new LiveServerMessage(), message));
+  };
+
+  // Barge-in: new speech cancels whatever the model is doing
+  const interrupt = () => {
+    if (!turn) return;
+    turn.abort();
+    turn = null;
+    pendingTools.clear();
+    emit({ serverContent: { interrupted: true } });
+  };
+
+  const speak = async (text: string, signal: AbortSignal) => {
+    const pcm = await client.speak(text, cascade.ttsModel, cascade.ttsVoice, signal);
+    for (let offset = 0; offset < pcm.byteLength && !signal.aborted; offset += AUDIO_SLICE_BYTES) {
+      const slice = pcm.slice(offset, Math.min(pcm.byteLength, offset + AUDIO_SLICE_BYTES));
+      emit({ serverContent: { modelTurn: { parts: [{ inlineData: { data: arrayBufferToBase64(slice), mimeType: `audio/pcm;rate=${OUTPUT_RATE}` } }] } } });
+    }
+  };
+
+  const awaitToolResults = (ids: string[], signal: AbortSignal) =>
+    Promise.all(ids.map(id => new Promise<unknown>((resolve, reject) => {
+      pendingTools.set(id, resolve);
+      signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')), { once: true });
+    })));
+
+  const respond = async (signal: AbortSignal) => {
+    for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+      const reply = await client.chat({
+        model: params.model,
+        messages: systemInstruction ? [{ role: 'system', content: systemInstruction }, ...history] : history,
+        tools,
+      }, signal);
+
+      if (reply.tool_calls?.length) {
+        history.push({ role: 'assistant', content: reply.content || null, tool_calls: reply.tool_calls });
+        const results = awaitToolResults(reply.tool_calls.map(c => c.id), signal);
+        emit({ toolCall: { functionCalls: reply.tool_calls.map(toFunctionCall) } });
+        let outputs: unknown[];
+        try {
+          outputs = await results;
+        } catch (err) {
+          // Every tool call needs an answer or the next request is rejected
+          outputs = reply.tool_calls.map(() => ({ error: 'Interrupted by the user' }));
+          throw err;
+        } finally {
+          outputs.forEach((result, i) => {
+            history.push({ role: 'tool', tool_call_id: reply.tool_calls[i].id, content: JSON.stringify(result ?? {}) });
+          });
+        }
+        continue;
+      }
+
+      const text = reply.content?.trim();
+      if (text) {
+        history.push({ role: 'assistant', content: text });
+        emit({ serverContent: { outputTranscription: { text } } });
+        await speak(text, signal);
+      }
+      break;
+    }
+  };
+
+  // Turns run one at a time; `prepare` adds the user's input and says whether to answer
+  const runTurn = (prepare: (signal: AbortSignal) => Promise<boolean>) => {
+    const controller = new AbortController();
+    turn = controller;
+    queue = queue.then(async () => {
+      if (controller.signal.aborted || closed) return;
+      try {
+        if (await prepare(controller.signal)) await respond(controller.signal);
+      } catch (err) {
+        if (!controller.signal.aborted) console.error("Cascaded voice turn failed", err);
+      } finally {
+        if (!controller.signal.aborted) emit({ serverContent: { turnComplete: true } });
+        if (turn === controller) turn = null;
+      }
+    });
+  };
+
+  const userMessage = (text: string): ChatMessage => latestFrame
+    ? { role: 'user', content: [{ type: 'text', text }, { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${latestFrame}` } }] }
+    : { role: 'user', content: text };
+
+  const startUtterance = () => {
+    interrupt();
+    utterance = [];
+  };
+
+  const endUtterance = () => {
+    const audio = concat(utterance);
+    utterance = [];
+    if (audio.length < MIN_UTTERANCE_SAMPLES) return;
+    runTurn(async (signal) => {
+      const text = (await client.transcribe(encodeWav(audio, INPUT_RATE), cascade.sttModel, signal)).trim();
+      if (!text) return false;
+      emit({ serverContent: { inputTranscription: { text } } });
+      history.push(userMessage(text));
+      return true;
+    });
+  };
+
+  // Without client activity signals the cascade detects speech itself
+  const manualActivity = !!config.realtimeInputConfig?.automaticActivityDetection?.disabled;
+  let capturing = false;
+  const vad = manualActivity ? null : createInputGate({ mode: 'vad', sampleRate: INPUT_RATE }, {
+    onStart: () => { capturing = true; startUtterance(); },
+    onAudio: (pcm) => utterance.push(pcm),
+    onEnd: () => { capturing = false; endUtterance(); },
+  });
+
+  setTimeout(() => { if (!closed) callbacks.onopen?.(); }, 0);
+
+  return {
+    sendRealtimeInput: (input) => {
+      if (closed) return;
+      if (input.activityStart) {
+        capturing = true;
+        startUtterance();
+      }
+      const media = input.media && 'data' in input.media ? input.media : input.audio;
+      if (media?.data && media.mimeType?.startsWith('image/')) {
+        latestFrame = media.data;
+      } else if (media?.data && media.mimeType?.startsWith('audio/pcm')) {
+        const pcm = pcm16ToFloat32(media.data);
+        if (vad) vad.push(pcm);
+        else if (capturing) utterance.push(pcm);
+      }
+      if (input.activityEnd) {
+        capturing = false;
+        endUtterance();
+      }
+    },
+
+    sendClientContent: ({ turns, turnComplete }) => {
+      if (closed || !turns) return;
+      // Shared images go through as image_url pieces, the same way the text chat sends them
+      const messages = toChatMessages(turns);
+      if (!messages.length) return;
+      history.push(...messages);
+      if (turnComplete !== false) {
+        interrupt();
+        runTurn(async () => true);
+      }
+    },
+
+    sendToolResponse: ({ functionResponses }) => {
+      for (const r of Array.isArray(functionResponses) ? functionResponses : [functionResponses]) {
+        const resolve = pendingTools.get(r.id);
+        pendingTools.delete(r.id);
+        resolve?.(r.response);
+      }
+    },
+
+    close: () => {
+      if (closed) return;
+      turn?.abort();
+      vad?.close();
+      closed = true;
+      callbacks.onclose?.({ code: 1000, reason: '', wasClean: true } as CloseEvent);
+    },
+  };
+}
@@ -0,0 +1,189 @@
+// In-process provider that replays scripted responses, for offline runs and tests
+
+import {
+  FunctionCall,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+  LiveServerMessage,
+  Part,
+} from "@google/genai";
+import { ImagePayload, ImageRequest, ModelProvider } from "./types";
+
+// One live step: deliver a server message, pause until the client does something, or close the socket
+export type FakeLiveStep =
+  | { message: Partial<LiveServerMessage>; delayMs?: number }
+  | { waitFor: 'toolResponse' | 'clientContent' | 'activityEnd' }
+  | { close: number; reason?: string };
+
+export interface FakeScript {
+  // One entry per generateContent(Stream) call, each a list of streamed chunks
+  chat?: Array<Array<Partial<GenerateContentResponse>>>;
+  // One result per generateImage call; null simulates a failed render
+  images?: Array<ImagePayload | null>;
+  // One script per live connection; reconnects take the next one
+  live?: FakeLiveStep[][];
+}
+
+// Everything the app sent, for assertions
+export interface FakeRecording {
+  requests: GenerateContentParameters[];
+  imageRequests: ImageRequest[];
+  connections: LiveConnectParameters[];
+  realtimeInput: LiveSendRealtimeInputParameters[];
+  clientContent: LiveSendClientContentParameters[];
+  toolResponses: LiveSendToolResponseParameters[];
+}
+
+export interface FakeProvider extends ModelProvider {
+  recording: FakeRecording;
+  // Drops the current live connection as if the network failed
+  dropConnection: () => void;
+}
+
+const toResponse = (chunk: Partial<GenerateContentResponse>) => Object.assign(new GenerateContentResponse(), chunk);
+const toMessage = (message: Partial<LiveServerMessage>) => Object.assign(new LiveServerMessage(), message);
+
+// Builders for common scripted server messages
+export const fakeLive = {
+  inputTranscript: (text: string): FakeLiveStep => ({ message: { serverContent: { inputTranscription: { text } } } }),
+  outputTranscript: (text: string): FakeLiveStep => ({ message: { serverContent: { outputTranscription: { text } } } }),
+  // Base64 16-bit PCM at 24 kHz
+  audio: (data: string): FakeLiveStep => ({
+    message: { serverContent: { modelTurn: { parts: [{ inlineData: { data, mimeType: 'audio/pcm;rate=24000' } }] } } },
+  }),
+  toolCall: (name: string, args: Record<string, unknown>, id = `call-${name}`): FakeLiveStep => ({
+    message: { toolCall: { functionCalls: [{ id, name, args }] } },
+  }),
+  interrupted: (): FakeLiveStep => ({ message: { serverContent: { interrupted: true } } }),
+  turnComplete: (): FakeLiveStep => ({ message: { serverContent: { turnComplete: true } } }),
+  waitFor: (event: 'toolResponse' | 'clientContent' | 'activityEnd'): FakeLiveStep => ({ waitFor: event }),
+  // Server-side close, e.g. 1008 for a rejected key or 1011 for an internal error
+  close: (code: number, reason = ''): FakeLiveStep => ({ close: code, reason }),
+};
+
+export const fakeChat = {
+  text: (text: string): Partial<GenerateContentResponse> => ({ candidates: [{ content: { role: 'model', parts: [{ text }] } }] }),
+  toolCall: (call: FunctionCall): Partial<GenerateContentResponse> => ({ candidates: [{ content: { role: 'model', parts: [{ functionCall: call }] } }] }),
+  parts: (parts: Part[]): Partial<GenerateContentResponse> => ({ candidates: [{ content: { role: 'model', parts } }] }),
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createFakeProvider(script: FakeScript): FakeProvider {
+  const recording: FakeRecording = { requests: [], imageRequests: [], connections: [], realtimeInput: [], clientContent: [], toolResponses: [] };
+  const chatQueue = [...(script.chat || [])];
+  const imageQueue = [...(script.images || [])];
+  const liveQueue = [...(script.live || [])];
+  let dropCurrent: (() => void) | null = null;
+
+  const nextChat = (params: GenerateContentParameters) => {
+    recording.requests.push(params);
+    const chunks = chatQueue.shift();
+    if (!chunks) throw new Error("Fake provider: no scripted chat response left");
+    return chunks.map(toResponse);
+  };
+
+  return {
+    id: 'fake',
+    recording,
+
+    async generateContent(params) {
+      const chunks = nextChat(params);
+      // Merge streamed chunks into one response
+      const parts = chunks.flatMap(c => c.candidates?.[0]?.content?.parts || []);
+      return toResponse({ candidates: [{ content: { role: 'model', parts } }] });
+    },
+
+    async generateContentStream(params) {
+      const chunks = nextChat(params);
+      return (async function* () {
+        for (const chunk of chunks) yield chunk;
+      })();
+    },
+
+    async checkModel() {},
+
+    async generateImage(request) {
+      recording.imageRequests.push(request);
+      return imageQueue.shift() ?? null;
+    },
+
+    async connectLive(params) {
+      recording.connections.push(params);
+      const steps = liveQueue.shift() || [];
+      let closed = false;
+      let waiting: { event: string; resume: () => void } | null = null;
+      // Events the client sent before the script reached the matching waitFor
+      // (e.g. a tool response sent while the tool call message was still being handled)
+      const pending: string[] = [];
+
+      const signal = (event: string) => {
+        if (waiting?.event === event) {
+          const { resume } = waiting;
+          waiting = null;
+          resume();
+        } else {
+          pending.push(event);
+        }
+      };
+
+      const close = (code: number, reason = '') => {
+        if (closed) return;
+        closed = true;
+        waiting = null;
+        params.callbacks.onclose?.({ code, reason, wasClean: code === 1000 } as CloseEvent);
+      };
+      dropCurrent = () => close(1006);
+
+      const play = async () => {
+        for (const step of steps) {
+          if (closed) return;
+          if ('waitFor' in step) {
+            const early = pending.indexOf(step.waitFor);
+            if (early >= 0) {
+              pending.splice(early, 1);
+              continue;
+            }
+            await new Promise<void>(resume => { waiting = { event: step.waitFor, resume }; });
+            continue;
+          }
+          if ('close' in step) {
+            close(step.close, step.reason);
+            return;
+          }
+          await wait(step.delayMs ?? 0);
+          if (!closed) await params.callbacks.onmessage(toMessage(step.message));
+        }
+      };
+
+      // Open asynchronously, like a real socket, after connect() has resolved
+      setTimeout(() => {
+        if (closed) return;
+        params.callbacks.onopen?.();
+        play().catch(err => params.callbacks.onerror?.(err));
+      }, 0);
+
+      return {
+        sendRealtimeInput: (input) => {
+          recording.realtimeInput.push(input);
+          if (input.activityEnd) signal('activityEnd');
+        },
+        sendClientContent: (content) => {
+          recording.clientContent.push(content);
+          signal('clientContent');
+        },
+        sendToolResponse: (response) => {
+          recording.toolResponses.push(response);
+          signal('toolResponse');
+        },
+        close: () => close(1000),
+      };
+    },
+
+    dropConnection: () => dropCurrent?.(),
+  };
+}
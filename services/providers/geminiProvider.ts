@@ -0,0 +1,29 @@
+import { GoogleGenAI, Part } from "@google/genai";
+import { ModelProvider } from "./types";
+
+export function createGeminiProvider(apiKey: string): ModelProvider {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    generateContent: (params) => ai.models.generateContent(params),
+    generateContentStream: (params) => ai.models.generateContentStream(params),
+    async generateImage({ model, prompt, reference }) {
+      // Image models take the reference as an inline part ahead of the instruction
+      const parts: Part[] = reference
+        ? [{ inlineData: { data: reference.data, mimeType: reference.mimeType } }, { text: prompt }]
+        : [{ text: prompt }];
+      const response = await ai.models.generateContent({ model, contents: { parts } });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData?.data) {
+          return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+        }
+      }
+      return null;
+    },
+    connectLive: (params) => ai.live.connect(params),
+    // Metadata lookup only, so probing costs no tokens
+    async checkModel(model) {
+      await ai.models.get({ model });
+    },
+  };
+}
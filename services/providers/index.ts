@@ -0,0 +1,53 @@
+import { ModelProvider } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createFakeProvider, fakeChat, fakeLive } from "./fakeProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { SettingsStore } from "../settings";
+
+export type { ImagePayload, ImageRequest, LiveSession, ModelProvider } from "./types";
+export { UnsupportedContentError } from "./types";
+export { createGeminiProvider } from "./geminiProvider";
+export { createFakeProvider, fakeChat, fakeLive } from "./fakeProvider";
+export { createOpenAIProvider } from "./openaiProvider";
+export type { FakeLiveStep, FakeProvider, FakeRecording, FakeScript } from "./fakeProvider";
+
+// Short scripted exchange used by `?provider=fake` to run the UI offline
+const DEMO_SCRIPT = {
+  chat: Array.from({ length: 20 }, () => [fakeChat.text("Offline demo mode, Sir. "), fakeChat.text("No real model is connected.")]),
+  live: Array.from({ length: 3 }, () => [
+    fakeLive.inputTranscript("What time is it?"),
+    fakeLive.toolCall('getCurrentTime', {}),
+    fakeLive.waitFor('toolResponse'),
+    fakeLive.outputTranscript("Running in offline demo mode, Sir. The time is on your HUD."),
+    fakeLive.turnComplete(),
+  ]),
+};
+
+let override: ModelProvider | null = null;
+let cached: ModelProvider | null = null;
+// OpenAI-compatible provider, rebuilt whenever its settings change
+let openai: { key: string; provider: ModelProvider } | null = null;
+
+// Null when no backend is configured (missing API key)
+export function getProvider(): ModelProvider | null {
+  if (override) return override;
+  const { kind, ...backend } = SettingsStore.load().backend;
+  if (kind === 'openai' && backend.baseUrl.trim()) {
+    const key = JSON.stringify(backend);
+    if (openai?.key !== key) openai = { key, provider: createOpenAIProvider(backend) };
+    return openai.provider;
+  }
+  if (!cached) {
+    if (typeof location !== 'undefined' && new URLSearchParams(location.search).get('provider') === 'fake') {
+      cached = createFakeProvider(DEMO_SCRIPT);
+    } else if (process.env.API_KEY) {
+      cached = createGeminiProvider(process.env.API_KEY);
+    }
+  }
+  return cached;
+}
+
+// Swap the backend (e.g. a fake provider in tests); pass null to restore the default
+export function setProvider(provider: ModelProvider | null) {
+  override = provider;
+}
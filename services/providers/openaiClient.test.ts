@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { Content, GenerateContentResponse } from '@google/genai';
+import { createOpenAIClient, toChatMessages } from './openaiClient';
+import { UnsupportedContentError } from './types';
+
+// Streaming response whose bytes arrive in arbitrary slices, as over a real socket
+const sseResponse = (events: object[], sliceSize = 7) => {
+  const body = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+  const bytes = new TextEncoder().encode(body);
+  return new Response(new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < bytes.length; i += sliceSize) controller.enqueue(bytes.slice(i, i + sliceSize));
+      controller.close();
+    },
+  }), { headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+const delta = (d: object) => ({ choices: [{ index: 0, delta: d }] });
+
+const collect = async (stream: AsyncGenerator<GenerateContentResponse>) => {
+  const parts = [];
+  for await (const chunk of stream) parts.push(...(chunk.candidates?.[0]?.content?.parts || []));
+  return parts;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('toChatMessages', () => {
+  it('maps a tool round-trip onto assistant tool_calls and tool messages', () => {
+    const contents: Content[] = [
+      { role: 'user', parts: [{ text: 'What time is it?' }] },
+      { role: 'model', parts: [{ text: 'Checking.' }, { functionCall: { id: 'c1', name: 'getCurrentTime', args: { zone: 'IST' } } }] },
+      { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'getCurrentTime', response: { result: '10:00' } } }] },
+    ];
+
+    expect(toChatMessages(contents, 'Be brief.')).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'What time is it?' },
+      {
+        role: 'assistant',
+        content: 'Checking.',
+        tool_calls: [{ id: 'c1', type: 'function', function: { name: 'getCurrentTime', arguments: '{"zone":"IST"}' } }],
+      },
+      { role: 'tool', tool_call_id: 'c1', content: '{"result":"10:00"}' },
+    ]);
+  });
+
+  it('pairs calls and responses without ids by order', () => {
+    const messages = toChatMessages([
+      { role: 'model', parts: [{ functionCall: { name: 'a', args: {} } }, { functionCall: { name: 'b', args: {} } }] },
+      { role: 'user', parts: [{ functionResponse: { name: 'a', response: {} } }, { functionResponse: { name: 'b', response: {} } }] },
+    ]);
+
+    const ids = messages[0].tool_calls!.map(c => c.id);
+    expect(new Set(ids).size).toBe(2);
+    expect(messages.slice(1).map(m => m.tool_call_id)).toEqual(ids);
+  });
+
+  it('sends images as data URLs next to the text and leaves out thoughts', () => {
+    const messages = toChatMessages([
+      { role: 'user', parts: [{ text: 'What is this?' }, { inlineData: { mimeType: 'image/png', data: 'AAAA' } }] },
+      { role: 'model', parts: [{ text: 'Pondering', thought: true }, { text: 'A cat.' }] },
+    ]);
+
+    expect(messages).toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is this?' },
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } },
+        ],
+      },
+      { role: 'assistant', content: 'A cat.' },
+    ]);
+  });
+
+  it('refuses documents it cannot forward instead of dropping them', () => {
+    const contents: Content[] = [
+      { role: 'user', parts: [{ text: 'Summarise' }, { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } }] },
+    ];
+
+    expect(() => toChatMessages(contents)).toThrow(UnsupportedContentError);
+    expect(() => toChatMessages(contents)).toThrow(/application\/pdf/);
+  });
+});
+
+describe('chatStream', () => {
+  it('assembles tool calls streamed in fragments and emits them once at the end', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => sseResponse([
+      delta({ role: 'assistant', reasoning_content: 'Need the time. ' }),
+      delta({ content: 'One ' }),
+      delta({ content: 'moment.' }),
+      delta({ tool_calls: [{ index: 0, id: 'call_a', type: 'function', function: { name: 'getCurrent', arguments: '' } }] }),
+      delta({ tool_calls: [{ index: 0, function: { name: 'Time', arguments: '{"zone":' } }] }),
+      delta({ tool_calls: [{ index: 1, function: { name: 'setTimer', arguments: '{"minutes":5}' } }] }),
+      delta({ tool_calls: [{ index: 0, function: { arguments: '"IST"}' } }] }),
+    ])));
+    const client = createOpenAIClient({ baseUrl: 'http://mock/v1' });
+
+    const parts = await collect(await client.chatStream({ model: 'mock-chat', messages: [{ role: 'user', content: 'Time?' }] }));
+
+    expect(parts).toEqual([
+      { text: 'Need the time. ', thought: true },
+      { text: 'One ' },
+      { text: 'moment.' },
+      { functionCall: { id: 'call_a', name: 'getCurrentTime', args: { zone: 'IST' } } },
+      // The server never sent an id for the second call
+      { functionCall: { id: 'call_2', name: 'setTimer', args: { minutes: 5 } } },
+    ]);
+  });
+
+  it('sends the request as a streaming chat completion', async () => {
+    const fetchMock = vi.fn(async () => sseResponse([delta({ content: 'Hi' })]));
+    vi.stubGlobal('fetch', fetchMock);
+    const client = createOpenAIClient({ baseUrl: 'http://mock/v1/', apiKey: 'secret' });
+
+    await collect(await client.chatStream({ model: 'mock-chat', messages: [{ role: 'user', content: 'Hello' }] }));
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('http://mock/v1/chat/completions');
+    expect((init.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body as string)).toEqual({ model: 'mock-chat', messages: [{ role: 'user', content: 'Hello' }], stream: true });
+  });
+});
@@ -0,0 +1,301 @@
+// Minimal client for OpenAI-compatible endpoints plus genai <-> chat-completions mapping
+
+import {
+  Content,
+  ContentListUnion,
+  ContentUnion,
+  FunctionCall,
+  GenerateContentResponse,
+  Part,
+  Schema,
+  ToolListUnion,
+} from "@google/genai";
+import { UnsupportedContentError } from "./types";
+
+export interface OpenAIConfig {
+  // Endpoint root including the version segment, e.g. http://localhost:8000/v1
+  baseUrl: string;
+  apiKey?: string;
+}
+
+type ContentPiece = { type: 'text'; text: string } | { type: 'image_url'; image_url: { url: string } };
+
+export interface ToolCallEntry {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string | ContentPiece[] | null;
+  tool_calls?: ToolCallEntry[];
+  tool_call_id?: string;
+}
+
+export interface ChatTool {
+  type: 'function';
+  function: { name: string; description?: string; parameters: Record<string, unknown> };
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  tools?: ChatTool[];
+}
+
+// Assistant reply; `reasoning_content` is what reasoning servers (vLLM, DeepSeek) stream as thoughts
+export interface ChatReply {
+  content: string | null;
+  reasoning_content?: string;
+  tool_calls?: ToolCallEntry[];
+}
+
+// genai Schema (Type.OBJECT etc.) to plain JSON Schema
+export function toJsonSchema(schema: Schema): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  if (schema.type) out.type = String(schema.type).toLowerCase();
+  if (schema.description) out.description = schema.description;
+  if (schema.enum) out.enum = schema.enum;
+  if (schema.minimum !== undefined) out.minimum = schema.minimum;
+  if (schema.maximum !== undefined) out.maximum = schema.maximum;
+  if (schema.items) out.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    out.properties = Object.fromEntries(Object.entries(schema.properties).map(([k, v]) => [k, toJsonSchema(v)]));
+  }
+  if (schema.required?.length) out.required = schema.required;
+  return out;
+}
+
+// Only function declarations carry over; provider-specific tools like googleSearch are dropped
+export function toChatTools(tools?: ToolListUnion): ChatTool[] {
+  const declarations = (tools || []).flatMap(t => ('functionDeclarations' in t && t.functionDeclarations) || []);
+  return declarations.map(d => ({
+    type: 'function',
+    function: {
+      name: d.name,
+      description: d.description,
+      parameters: d.parameters ? toJsonSchema(d.parameters) : { type: 'object', properties: {} },
+    },
+  }));
+}
+
+const isContent = (value: unknown): value is Content => !!value && typeof value === 'object' && 'parts' in value;
+
+function toContents(contents: ContentListUnion): Content[] {
+  const list = Array.isArray(contents) ? contents : [contents];
+  return list.map(item => {
+    if (typeof item === 'string') return { role: 'user', parts: [{ text: item }] };
+    if (isContent(item)) return item;
+    return { role: 'user', parts: [item as Part] };
+  });
+}
+
+export function textOf(content?: ContentUnion): string {
+  if (!content) return '';
+  if (typeof content === 'string') return content;
+  if (isContent(content)) return (content.parts || []).map(p => p.text || '').join('');
+  return Array.isArray(content) ? content.map(p => (typeof p === 'string' ? p : p.text || '')).join('') : (content as Part).text || '';
+}
+
+export function toChatMessages(contents: ContentListUnion, systemInstruction?: ContentUnion): ChatMessage[] {
+  const messages: ChatMessage[] = [];
+  const system = textOf(systemInstruction).trim();
+  if (system) messages.push({ role: 'system', content: system });
+
+  // Calls without ids (e.g. from Gemini history) are paired with responses by order
+  let unansweredIds: string[] = [];
+  let generated = 0;
+
+  for (const content of toContents(contents)) {
+    const parts = content.parts || [];
+    const text = parts.filter(p => p.text && !p.thought).map(p => p.text).join('');
+
+    if (content.role === 'model') {
+      const calls = parts.filter(p => p.functionCall).map(p => p.functionCall);
+      const toolCalls = calls.map(c => ({
+        id: c.id || `call_${++generated}`,
+        type: 'function' as const,
+        function: { name: c.name || '', arguments: JSON.stringify(c.args || {}) },
+      }));
+      unansweredIds = toolCalls.map(c => c.id);
+      messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length ? { tool_calls: toolCalls } : {}) });
+      continue;
+    }
+
+    for (const p of parts.filter(p => p.functionResponse)) {
+      const id = p.functionResponse.id || unansweredIds.shift() || `call_${++generated}`;
+      unansweredIds = unansweredIds.filter(u => u !== id);
+      messages.push({ role: 'tool', tool_call_id: id, content: JSON.stringify(p.functionResponse.response ?? {}) });
+    }
+
+    // Chat completions only take images inline; dropping a document silently would let the model guess
+    const unsupported = parts.find(p => p.inlineData && !p.inlineData.mimeType?.startsWith('image/'));
+    if (unsupported) {
+      throw new UnsupportedContentError(`This backend can't read ${unsupported.inlineData.mimeType} files. Attach images or text files, or switch to Gemini in Settings.`);
+    }
+    const images = parts.filter(p => p.inlineData?.mimeType?.startsWith('image/'));
+    if (images.length) {
+      messages.push({
+        role: 'user',
+        content: [
+          ...(text ? [{ type: 'text' as const, text }] : []),
+          ...images.map(p => ({ type: 'image_url' as const, image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } })),
+        ],
+      });
+    } else if (text) {
+      messages.push({ role: 'user', content: text });
+    }
+  }
+  return messages;
+}
+
+export function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch (e) {
+    console.warn("Model produced malformed tool arguments", raw);
+    return {};
+  }
+}
+
+export const toFunctionCall = (call: ToolCallEntry): FunctionCall => ({
+  id: call.id,
+  name: call.function.name,
+  args: parseArguments(call.function.arguments),
+});
+
+export const toResponse = (parts: Part[]) =>
+  Object.assign(new GenerateContentResponse(), { candidates: [{ content: { role: 'model', parts } }] });
+
+export function replyToParts(reply: ChatReply): Part[] {
+  const parts: Part[] = [];
+  if (reply.reasoning_content) parts.push({ text: reply.reasoning_content, thought: true });
+  if (reply.content) parts.push({ text: reply.content });
+  for (const call of reply.tool_calls || []) parts.push({ functionCall: toFunctionCall(call) });
+  return parts;
+}
+
+// Server-sent events from a streaming response, one parsed JSON payload at a time
+async function* readEvents(response: Response): AsyncGenerator<any> {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    buffer += decoder.decode(value, { stream: true });
+    let newline: number;
+    while ((newline = buffer.indexOf('\n')) >= 0) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') return;
+      yield JSON.parse(data);
+    }
+  }
+}
+
+export function createOpenAIClient(config: OpenAIConfig) {
+  const url = (path: string) => `${config.baseUrl.replace(/\/+$/, '')}${path}`;
+
+  const ensureOk = async (path: string, response: Response): Promise<Response> => {
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`${path} failed with ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  };
+
+  const post = async (path: string, body: object | FormData, signal?: AbortSignal): Promise<Response> => {
+    const isForm = body instanceof FormData;
+    const headers: Record<string, string> = isForm ? {} : { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+    return ensureOk(path, await fetch(url(path), { method: 'POST', headers, body: isForm ? body : JSON.stringify(body), signal }));
+  };
+
+  const get = async (path: string): Promise<Response> => {
+    const headers: Record<string, string> = config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {};
+    return ensureOk(path, await fetch(url(path), { headers }));
+  };
+
+  const chatBody = (request: ChatRequest, stream: boolean) => ({
+    model: request.model,
+    messages: request.messages,
+    ...(request.tools?.length ? { tools: request.tools } : {}),
+    stream,
+  });
+
+  return {
+    async getModel(model: string): Promise<{ id: string }> {
+      return (await get(`/models/${encodeURIComponent(model)}`)).json();
+    },
+
+    async chat(request: ChatRequest, signal?: AbortSignal): Promise<ChatReply> {
+      const json = await (await post('/chat/completions', chatBody(request, false), signal)).json();
+      const message = json.choices?.[0]?.message;
+      if (!message) throw new Error("/chat/completions returned no choices");
+      return message;
+    },
+
+    // Streams text and reasoning as they arrive; tool calls are emitted whole at the end
+    async chatStream(request: ChatRequest, signal?: AbortSignal): Promise<AsyncGenerator<GenerateContentResponse>> {
+      const response = await post('/chat/completions', chatBody(request, true), signal);
+      return (async function* () {
+        const calls = new Map<number, ToolCallEntry>();
+        for await (const event of readEvents(response)) {
+          const delta = event.choices?.[0]?.delta;
+          if (!delta) continue;
+          const parts: Part[] = [];
+          const reasoning = delta.reasoning_content || delta.reasoning;
+          if (reasoning) parts.push({ text: reasoning, thought: true });
+          if (delta.content) parts.push({ text: delta.content });
+          for (const tc of delta.tool_calls || []) {
+            const entry = calls.get(tc.index ?? 0) || { id: '', type: 'function', function: { name: '', arguments: '' } };
+            if (tc.id) entry.id = tc.id;
+            if (tc.function?.name) entry.function.name += tc.function.name;
+            if (tc.function?.arguments) entry.function.arguments += tc.function.arguments;
+            calls.set(tc.index ?? 0, entry);
+          }
+          if (parts.length) yield toResponse(parts);
+        }
+        if (calls.size) {
+          yield toResponse([...calls.values()].map((c, i) => ({ functionCall: toFunctionCall({ ...c, id: c.id || `call_${i + 1}` }) })));
+        }
+      })();
+    },
+
+    async transcribe(audio: Blob, model: string, signal?: AbortSignal): Promise<string> {
+      const form = new FormData();
+      form.append('file', audio, 'speech.wav');
+      form.append('model', model);
+      const json = await (await post('/audio/transcriptions', form, signal)).json();
+      return json.text || '';
+    },
+
+    // 24 kHz mono 16-bit PCM
+    async speak(text: string, model: string, voice: string, signal?: AbortSignal): Promise<ArrayBuffer> {
+      const response = await post('/audio/speech', { model, voice, input: text, response_format: 'pcm' }, signal);
+      return response.arrayBuffer();
+    },
+
+    async createImage(model: string, prompt: string): Promise<string | null> {
+      const json = await (await post('/images/generations', { model, prompt, n: 1, response_format: 'b64_json' })).json();
+      return json.data?.[0]?.b64_json || null;
+    },
+
+    async editImage(model: string, prompt: string, image: Blob): Promise<string | null> {
+      const form = new FormData();
+      form.append('model', model);
+      form.append('prompt', prompt);
+      form.append('image', image, 'image.png');
+      form.append('response_format', 'b64_json');
+      const json = await (await post('/images/edits', form)).json();
+      return json.data?.[0]?.b64_json || null;
+    },
+  };
+}
+
+export type OpenAIClient = ReturnType<typeof createOpenAIClient>;
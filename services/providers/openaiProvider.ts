@@ -0,0 +1,41 @@
+import { base64ToUint8Array } from "../audioUtils";
+import { ModelProvider } from "./types";
+import { createOpenAIClient, OpenAIConfig, replyToParts, toChatMessages, toChatTools, toResponse } from "./openaiClient";
+import { CascadeConfig, createCascadedSession } from "./cascadedLive";
+
+// Self-hosted or third-party backend speaking the OpenAI REST API
+export function createOpenAIProvider(config: OpenAIConfig & CascadeConfig): ModelProvider {
+  const client = createOpenAIClient(config);
+
+  return {
+    id: 'openai',
+
+    async generateContent(params) {
+      const reply = await client.chat({
+        model: params.model,
+        messages: toChatMessages(params.contents, params.config?.systemInstruction),
+        tools: toChatTools(params.config?.tools),
+      });
+      return toResponse(replyToParts(reply));
+    },
+
+    generateContentStream: (params) => client.chatStream({
+      model: params.model,
+      messages: toChatMessages(params.contents, params.config?.systemInstruction),
+      tools: toChatTools(params.config?.tools),
+    }),
+
+    async generateImage({ model, prompt, reference }) {
+      const data = reference
+        ? await client.editImage(model, prompt, new Blob([base64ToUint8Array(reference.data)], { type: reference.mimeType }))
+        : await client.createImage(model, prompt);
+      return data ? { data, mimeType: 'image/png' } : null;
+    },
+
+    connectLive: async (params) => createCascadedSession(client, config, params),
+
+    async checkModel(model) {
+      await client.getModel(model);
+    },
+  };
+}
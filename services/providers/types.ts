@@ -0,0 +1,45 @@
+import type {
+  GenerateContentParameters,
+  GenerateContentResponse,
+  LiveConnectParameters,
+  LiveSendClientContentParameters,
+  LiveSendRealtimeInputParameters,
+  LiveSendToolResponseParameters,
+} from "@google/genai";
+
+export interface ImagePayload {
+  // Base64 bytes
+  data: string;
+  mimeType: string;
+}
+
+export interface ImageRequest {
+  model: string;
+  prompt: string;
+  // Existing image to edit instead of generating from scratch
+  reference?: ImagePayload;
+}
+
+// Request content the backend cannot take (e.g. PDFs on a text-and-image backend); the message is meant for the user
+export class UnsupportedContentError extends Error {
+  name = 'UnsupportedContentError';
+}
+
+// The subset of a live session JarvisService drives
+export interface LiveSession {
+  sendRealtimeInput: (params: LiveSendRealtimeInputParameters) => void;
+  sendClientContent: (params: LiveSendClientContentParameters) => void;
+  sendToolResponse: (params: LiveSendToolResponseParameters) => void;
+  close: () => void;
+}
+
+// Backend for chat, image and live calls; chat and live use the genai request and message shapes
+export interface ModelProvider {
+  id: string;
+  generateContent: (params: GenerateContentParameters) => Promise<GenerateContentResponse>;
+  generateContentStream: (params: GenerateContentParameters) => Promise<AsyncGenerator<GenerateContentResponse>>;
+  generateImage: (request: ImageRequest) => Promise<ImagePayload | null>;
+  connectLive: (params: LiveConnectParameters) => Promise<LiveSession>;
+  // Resolves when the backend accepts the credentials and serves this model; throws otherwise
+  checkModel: (model: string) => Promise<void>;
+}
@@ -0,0 +1,159 @@
+// Timers and reminders persisted in IndexedDB so they survive reloads
+
+import { STORES, requestToPromise, withStore } from "./db";
+
+export type ReminderKind = 'timer' | 'reminder';
+
+export interface Reminder {
+  id: string;
+  kind: ReminderKind;
+  message: string;
+  dueAt: Date;
+  createdAt: Date;
+}
+
+export interface FiredReminder extends Reminder {
+  // Came due while the page was closed
+  missed: boolean;
+}
+
+type Listener = (pending: Reminder[]) => void;
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+// Items this late when the page starts are reported as missed
+const MISSED_GRACE_MS = 5000;
+
+let pending: Reminder[] = [];
+let timer: ReturnType<typeof setTimeout> | null = null;
+let onFire: ((reminder: FiredReminder) => void) | null = null;
+let ready: Promise<void> | null = null;
+const listeners = new Set<Listener>();
+
+const notify = () => listeners.forEach(l => l(pending));
+
+async function deleteStored(id: string) {
+  try {
+    await withStore(STORES.reminders, 'readwrite', store => requestToPromise(store.delete(id)));
+  } catch (e) {
+    console.error("Failed to remove reminder", e);
+  }
+}
+
+function fireDue(startedAt?: number) {
+  const now = Date.now();
+  const due = pending.filter(r => r.dueAt.getTime() <= now);
+  if (due.length === 0) return;
+  pending = pending.filter(r => r.dueAt.getTime() > now);
+  for (const r of due) {
+    deleteStored(r.id);
+    onFire?.({ ...r, missed: startedAt !== undefined && r.dueAt.getTime() < startedAt - MISSED_GRACE_MS });
+  }
+  notify();
+}
+
+function arm() {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  if (!onFire || pending.length === 0) return;
+  const wait = Math.max(0, pending[0].dueAt.getTime() - Date.now());
+  timer = setTimeout(() => {
+    fireDue();
+    arm();
+  }, Math.min(wait, MAX_TIMEOUT_MS));
+}
+
+export const Scheduler = {
+  // Loads saved items and starts firing them; anything already overdue fires at once
+  start(handler: (reminder: FiredReminder) => void): Promise<void> {
+    onFire = handler;
+    if (!ready) {
+      const startedAt = Date.now();
+      ready = withStore(STORES.reminders, 'readonly', store =>
+        requestToPromise(store.index('dueAt').getAll() as IDBRequest<Reminder[]>)
+      ).then(saved => {
+        const known = new Set(pending.map(r => r.id));
+        pending = [...pending, ...saved.filter(r => !known.has(r.id))].sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+        fireDue(startedAt);
+        notify();
+      }).catch(e => console.error("Reminders unavailable", e));
+    }
+    return ready.then(arm);
+  },
+
+  stop() {
+    onFire = null;
+    if (timer) clearTimeout(timer);
+    timer = null;
+  },
+
+  async schedule(kind: ReminderKind, message: string, dueAt: Date): Promise<Reminder> {
+    const reminder: Reminder = { id: crypto.randomUUID(), kind, message, dueAt, createdAt: new Date() };
+    await withStore(STORES.reminders, 'readwrite', store => requestToPromise(store.put(reminder)));
+    pending = [...pending, reminder].sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+    notify();
+    arm();
+    return reminder;
+  },
+
+  async cancel(id: string): Promise<boolean> {
+    if (!pending.some(r => r.id === id)) return false;
+    pending = pending.filter(r => r.id !== id);
+    await deleteStored(id);
+    notify();
+    arm();
+    return true;
+  },
+
+  list(): Reminder[] {
+    return pending;
+  },
+
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(pending);
+    return () => { listeners.delete(listener); };
+  },
+};
+
+// Short two-tone chime; its own context so it works without a voice session
+export function playChime() {
+  try {
+    const ctx = new AudioContext();
+    const gain = ctx.createGain();
+    gain.connect(ctx.destination);
+    [880, 1320, 880, 1320].forEach((freq, i) => {
+      const osc = ctx.createOscillator();
+      const start = ctx.currentTime + i * 0.25;
+      osc.frequency.value = freq;
+      osc.connect(gain);
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + 0.22);
+      osc.start(start);
+      osc.stop(start + 0.22);
+    });
+    setTimeout(() => ctx.close(), 1500);
+  } catch (e) {
+    console.warn("Chime unavailable", e);
+  }
+}
+
+export function showReminderNotification(reminder: FiredReminder) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+  const title = reminder.kind === 'timer' ? "JARVIS // Timer finished" : "JARVIS // Reminder";
+  new Notification(title, { body: reminder.missed ? `${reminder.message} (missed while closed)` : reminder.message, tag: reminder.id });
+}
+
+export function notificationPermission(): NotificationPermission | 'unsupported' {
+  return 'Notification' in window ? Notification.permission : 'unsupported';
+}
+
+// Browsers ignore or penalise prompts without a user gesture; call from a click handler
+export async function requestNotificationPermission(): Promise<NotificationPermission | 'unsupported'> {
+  if (notificationPermission() !== 'default') return notificationPermission();
+  try {
+    return await Notification.requestPermission();
+  } catch (e) {
+    return notificationPermission();
+  }
+}
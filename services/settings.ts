@@ -0,0 +1,183 @@
+// Persisted assistant profiles (persona, language, voice and models), input, backend, interpreter and audio device preferences
+
+import type { InputGateMode } from "./inputGate";
+
+export interface Profile {
+  id: string;
+  name: string;
+  persona: string;
+  language: string;
+  voice: string;
+  chatModel: string;
+  liveModel: string;
+  imageModel: string;
+  thinkModel: string;
+}
+
+export interface InputSettings {
+  mode: InputGateMode;
+  // VAD threshold in dB above background noise; lower is more sensitive
+  sensitivityDb: number;
+  hangoverMs: number;
+  // KeyboardEvent.code held for push-to-talk
+  pttKey: string;
+  // Microphone audio per uplink message; smaller reacts sooner, larger sends fewer messages
+  captureChunkMs: number;
+}
+
+export type BackendKind = 'gemini' | 'openai';
+
+// Where model calls go; profile model names are passed through as-is
+export interface BackendSettings {
+  kind: BackendKind;
+  // OpenAI-compatible endpoint root, e.g. http://localhost:11434/v1
+  baseUrl: string;
+  apiKey: string;
+  // Cascaded voice pipeline: speech-to-text, then chat, then text-to-speech
+  sttModel: string;
+  ttsModel: string;
+  ttsVoice: string;
+}
+
+// Interpreter mode: JARVIS only translates between these languages
+export interface InterpreterSettings {
+  source: string;
+  target: string;
+  // Also translate target-language speech back into the source language
+  twoWay: boolean;
+}
+
+// MediaDeviceInfo ids; empty means the system default
+export interface DeviceSettings {
+  inputId: string;
+  outputId: string;
+}
+
+export interface Settings {
+  profiles: Profile[];
+  activeProfileId: string;
+  input: InputSettings;
+  backend: BackendSettings;
+  interpreter: InterpreterSettings;
+  devices: DeviceSettings;
+}
+
+export const DEFAULT_BACKEND: BackendSettings = {
+  kind: 'gemini',
+  baseUrl: 'http://localhost:11434/v1',
+  apiKey: '',
+  sttModel: 'whisper-1',
+  ttsModel: 'tts-1',
+  ttsVoice: 'alloy',
+};
+
+export const DEFAULT_INTERPRETER: InterpreterSettings = {
+  source: 'Hindi',
+  target: 'English',
+  twoWay: true,
+};
+
+export const DEFAULT_DEVICES: DeviceSettings = {
+  inputId: '',
+  outputId: '',
+};
+
+export const DEFAULT_INPUT: InputSettings = {
+  mode: 'always',
+  sensitivityDb: 12,
+  hangoverMs: 700,
+  pttKey: 'Space',
+  captureChunkMs: 40,
+};
+
+// Prebuilt voices offered by the Live API
+export const PREBUILT_VOICES = ['Fenrir', 'Puck', 'Charon', 'Kore', 'Aoede', 'Leda', 'Orus', 'Zephyr'];
+
+export const LANGUAGE_PRESETS = [
+  'Hinglish (natural mix of Hindi and English)',
+  'English',
+  'Hindi',
+  'Tamil',
+  'Telugu',
+  'Bengali',
+  'Marathi',
+];
+
+export const INTERPRETER_LANGUAGES = [
+  'English', 'Hindi', 'Tamil', 'Telugu', 'Bengali', 'Marathi', 'Gujarati', 'Urdu',
+  'Mandarin Chinese', 'Japanese', 'Korean', 'Vietnamese', 'Thai', 'Indonesian',
+  'German', 'French', 'Spanish', 'Portuguese', 'Italian', 'Russian', 'Turkish', 'Arabic',
+];
+
+export const MODEL_PRESETS = {
+  chatModel: ['gemini-3-flash-preview', 'gemini-2.5-flash', 'gemini-2.5-pro'],
+  liveModel: ['gemini-2.5-flash-native-audio-preview-12-2025', 'gemini-live-2.5-flash-preview'],
+  imageModel: ['gemini-2.5-flash-image', 'gemini-3-pro-image-preview'],
+  thinkModel: ['gemini-2.5-pro', 'gemini-2.5-flash'],
+};
+
+export const DEFAULT_PROFILES: Profile[] = [
+  {
+    id: 'desi-jarvis',
+    name: 'Desi JARVIS',
+    persona: `You are JARVIS (Just A Rather Very Intelligent System), customized with a friendly Indian spirit.
+**Persona**: Tony Stark's AI assistant, but "Desi". Loyal, witty, smart, and efficient.
+**Tone**: Use "Sir" or "Boss". Be cool and helpful.`,
+    language: LANGUAGE_PRESETS[0],
+    voice: 'Fenrir',
+    chatModel: MODEL_PRESETS.chatModel[0],
+    liveModel: MODEL_PRESETS.liveModel[0],
+    imageModel: MODEL_PRESETS.imageModel[0],
+    thinkModel: MODEL_PRESETS.thinkModel[0],
+  },
+  {
+    id: 'classic-jarvis',
+    name: 'Classic JARVIS',
+    persona: `You are JARVIS (Just A Rather Very Intelligent System), Tony Stark's AI assistant.
+**Persona**: Composed, precise and quietly witty. Anticipate needs and keep answers brief.
+**Tone**: Formal and courteous. Address the user as "Sir".`,
+    language: 'English',
+    voice: 'Charon',
+    chatModel: MODEL_PRESETS.chatModel[0],
+    liveModel: MODEL_PRESETS.liveModel[0],
+    imageModel: MODEL_PRESETS.imageModel[0],
+    thinkModel: MODEL_PRESETS.thinkModel[0],
+  },
+];
+
+const STORAGE_KEY = 'jarvis.settings';
+
+export const SettingsStore = {
+  load(): Settings {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as Settings;
+        if (parsed.profiles?.length) {
+          // Fill fields added after the profile was saved
+          const base = DEFAULT_PROFILES[0];
+          return {
+            profiles: parsed.profiles.map(p => ({ ...base, ...p })),
+            activeProfileId: parsed.activeProfileId,
+            input: { ...DEFAULT_INPUT, ...parsed.input },
+            backend: { ...DEFAULT_BACKEND, ...parsed.backend },
+            interpreter: { ...DEFAULT_INTERPRETER, ...parsed.interpreter },
+            devices: { ...DEFAULT_DEVICES, ...parsed.devices },
+          };
+        }
+      }
+    } catch (e) {
+      console.error("Settings corrupted, using defaults", e);
+    }
+    return { profiles: DEFAULT_PROFILES, activeProfileId: DEFAULT_PROFILES[0].id, input: DEFAULT_INPUT, backend: DEFAULT_BACKEND, interpreter: DEFAULT_INTERPRETER, devices: DEFAULT_DEVICES };
+  },
+
+  save(settings: Settings) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  },
+
+  getActiveProfile(): Profile {
+    const { profiles, activeProfileId } = SettingsStore.load();
+    return profiles.find(p => p.id === activeProfileId) || profiles[0];
+  },
+};
@@ -0,0 +1,161 @@
+// Safety policy in front of tool execution: URL vetting, per-tool rules,
+// user confirmation for sensitive tools and a persisted audit trail
+
+import type { GuardRecord, ToolGuard } from "./tools/registry";
+import { STORES, requestToPromise, withStore } from "./db";
+
+export type ToolMode = 'allow' | 'confirm' | 'deny';
+
+export interface ToolRule {
+  mode: ToolMode;
+  // Hosts match themselves and their subdomains; an empty allow list allows any host
+  allowHosts: string[];
+  denyHosts: string[];
+}
+
+export interface PolicyConfig {
+  rules: Record<string, ToolRule>;
+}
+
+export interface AuditEntry extends GuardRecord {
+  id: string;
+  timestamp: Date;
+}
+
+const STORAGE_KEY = 'jarvis.toolPolicy';
+const SAFE_SCHEMES = ['http:', 'https:'];
+const AUDIT_LIMIT = 1000;
+
+// Sensitive tools ask first unless the user relaxes the rule
+const DEFAULT_MODES: Record<string, ToolMode> = {
+  openWebsite: 'confirm',
+};
+
+const emptyRule = (mode: ToolMode = 'allow'): ToolRule => ({ mode, allowHosts: [], denyHosts: [] });
+
+// Bare domains like "github.com" get https; anything else with a scheme is kept as-is
+export function normalizeUrl(raw: string): string {
+  const trimmed = raw.trim();
+  return /^[a-z][a-z0-9+.-]*:/i.test(trimmed) && !/^[^:/]+:\d+(\/|$)/.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+const hostMatches = (host: string, pattern: string) => {
+  const p = pattern.trim().toLowerCase().replace(/^\*\./, '');
+  return !!p && (host === p || host.endsWith(`.${p}`));
+};
+
+// Returns a reason when the URL must not be opened
+export function checkUrl(url: string, rule: ToolRule): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch (e) {
+    return `'${url}' is not a valid URL.`;
+  }
+  if (!SAFE_SCHEMES.includes(parsed.protocol)) return `The ${parsed.protocol} scheme is not allowed. Only http and https links can be opened.`;
+  if (parsed.username || parsed.password) return "URLs with embedded credentials are not allowed.";
+  const host = parsed.hostname.toLowerCase();
+  if (!host) return "The URL has no host.";
+  if (rule.denyHosts.some(p => hostMatches(host, p))) return `${host} is on the deny list.`;
+  if (rule.allowHosts.length && !rule.allowHosts.some(p => hostMatches(host, p))) return `${host} is not on the allow list.`;
+  return null;
+}
+
+export const PolicyStore = {
+  load(): PolicyConfig {
+    try {
+      const raw = localStorage.getItem(STORAGE_KEY);
+      if (raw) {
+        const parsed = JSON.parse(raw) as PolicyConfig;
+        if (parsed.rules) return parsed;
+      }
+    } catch (e) {
+      console.error("Tool policy corrupted, using defaults", e);
+    }
+    return { rules: {} };
+  },
+
+  save(config: PolicyConfig) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  },
+
+  ruleFor(tool: string, config: PolicyConfig = PolicyStore.load()): ToolRule {
+    return { ...emptyRule(DEFAULT_MODES[tool]), ...config.rules[tool] };
+  },
+};
+
+export const AuditLog = {
+  async record(entry: GuardRecord): Promise<void> {
+    const row: AuditEntry = { ...entry, id: crypto.randomUUID(), timestamp: new Date() };
+    try {
+      await withStore(STORES.audit, 'readwrite', async store => {
+        await requestToPromise(store.put(row));
+        // Keep the trail bounded by dropping the oldest rows
+        const count = await requestToPromise(store.count());
+        if (count > AUDIT_LIMIT) {
+          const oldest = await requestToPromise(store.index('timestamp').getAllKeys(null, count - AUDIT_LIMIT));
+          oldest.forEach(key => store.delete(key));
+        }
+      });
+    } catch (e) {
+      console.error("Failed to record tool audit entry", e);
+    }
+  },
+
+  // Newest first
+  async list(): Promise<AuditEntry[]> {
+    try {
+      const rows = await withStore(STORES.audit, 'readonly', store =>
+        requestToPromise(store.index('timestamp').getAll() as IDBRequest<AuditEntry[]>)
+      );
+      return rows.reverse();
+    } catch (e) {
+      console.error("Audit trail unavailable", e);
+      return [];
+    }
+  },
+
+  async clear(): Promise<void> {
+    await withStore(STORES.audit, 'readwrite', store => requestToPromise(store.clear()));
+  },
+};
+
+const summarize = (name: string, args: any, url?: string) =>
+  url ? `${name} → ${url}` : `${name}(${JSON.stringify(args)})`;
+
+export const toolPolicy: ToolGuard = {
+  async authorize(name, tool, args, ctx) {
+    const rule = PolicyStore.ruleFor(name);
+    if (rule.mode === 'deny') return { decision: 'denied', reason: `The user has disabled ${name}.` };
+
+    const url = tool.targetUrl?.(args);
+    if (url !== undefined) {
+      const reason = checkUrl(url, rule);
+      if (reason) return { decision: 'denied', reason };
+    }
+
+    if (rule.mode === 'confirm') {
+      const approved = await ctx.requestConfirmation({ tool: name, summary: summarize(name, args, url) });
+      return { decision: approved ? 'confirmed' : 'cancelled' };
+    }
+    return { decision: 'allowed' };
+  },
+
+  record(entry) {
+    AuditLog.record(entry);
+  },
+};
+
+const CONFIRM_WORDS = ['confirm', 'confirmed', 'yes', 'proceed', 'go ahead', 'haan', 'ha', 'theek hai', 'kar do'];
+const CANCEL_WORDS = ['cancel', 'no', 'stop', 'abort', 'nahi', 'mat karo', 'rehne do'];
+
+// Spoken reply to a pending confirmation: true/false, or null if neither was said.
+// The last keyword wins so "no wait, confirm" approves.
+export function matchVoiceConfirmation(text: string): boolean | null {
+  const spoken = ` ${text.toLowerCase().replace(/[^\p{L}\s]/gu, ' ').replace(/\s+/g, ' ')} `;
+  const lastIndex = (words: string[]) => Math.max(...words.map(w => spoken.lastIndexOf(` ${w} `)));
+  const yes = lastIndex(CONFIRM_WORDS);
+  const no = lastIndex(CANCEL_WORDS);
+  if (yes < 0 && no < 0) return null;
+  return yes > no;
+}
@@ -0,0 +1,179 @@
+import { Type } from "@google/genai";
+import { ToolContext, ToolDefinition, toolError } from "./registry";
+import { normalizeUrl } from "../toolPolicy";
+import { findMedia, MediaPlayer, MediaTrack } from "../mediaPlayer";
+
+// Shared by every tool that opens a new tab
+const openInNewTab = (url: string, ctx: ToolContext) => {
+  if (!ctx.openUrl(url)) {
+    // Critical: Inform the model that the action failed so it can respond verbally
+    return toolError('EXECUTION_FAILED', "Browser blocked the popup window. User has been alerted manually.");
+  }
+  return { status: "Opened successfully" };
+};
+
+const youtubeSearchUrl = (args: { query: string; type?: 'video' | 'short' }) => {
+  const sq = args.type === 'short' ? `${args.query} shorts` : args.query;
+  return `https://www.youtube.com/results?search_query=${encodeURIComponent(sq)}`;
+};
+
+const googleSearchUrl = (args: { query: string }) => `https://www.google.com/search?q=${encodeURIComponent(args.query)}`;
+
+export const playMedia: ToolDefinition<{ query: string; type?: 'video' | 'short'; enqueue?: boolean }> = {
+  declaration: {
+    name: "playMedia",
+    description: "Play YouTube videos, or a direct audio/video link, in the dashboard's embedded player. Opens a YouTube search tab when nothing can be embedded.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: "What to search for, a YouTube link, or a direct media URL." },
+        type: { type: Type.STRING, enum: ["video", "short"], description: "Type: 'video' or 'short'." },
+        enqueue: { type: Type.BOOLEAN, description: "Add to the end of the queue instead of playing now." },
+      },
+      required: ["query"],
+    },
+  },
+  label: (args) => args.enqueue ? `QUEUED: ${args.query}` : `PLAYING: ${args.query}`,
+  targetUrl: (args) => /^https?:\/\//i.test(args.query.trim()) ? normalizeUrl(args.query) : youtubeSearchUrl(args),
+  handler: async (args, ctx) => {
+    let tracks: MediaTrack[] = [];
+    try {
+      tracks = await findMedia(args.query, args.type);
+    } catch (e) {
+      console.warn("Media search failed, falling back to a search tab", e);
+    }
+    if (tracks.length === 0) {
+      const opened = openInNewTab(youtubeSearchUrl(args), ctx);
+      return 'error' in opened ? opened : { status: "Nothing embeddable found; opened YouTube search in a new tab" };
+    }
+    MediaPlayer.load(tracks, args.enqueue);
+    return { status: args.enqueue ? "Added to the queue" : "Playing in the dashboard player", player: MediaPlayer.summary() };
+  },
+};
+
+type MediaAction =
+  | 'play' | 'pause' | 'stop' | 'next' | 'previous' | 'skipTo'
+  | 'seek' | 'forward' | 'rewind'
+  | 'volume' | 'volumeUp' | 'volumeDown' | 'mute' | 'unmute'
+  | 'clearQueue' | 'status';
+
+const MEDIA_ACTIONS: MediaAction[] = [
+  'play', 'pause', 'stop', 'next', 'previous', 'skipTo',
+  'seek', 'forward', 'rewind',
+  'volume', 'volumeUp', 'volumeDown', 'mute', 'unmute',
+  'clearQueue', 'status',
+];
+
+// Step used by volumeUp/volumeDown and forward/rewind when no value is given
+const DEFAULT_STEPS: Partial<Record<MediaAction, number>> = { volumeUp: 10, volumeDown: 10, forward: 10, rewind: 10 };
+
+export const controlMedia: ToolDefinition<{ action: MediaAction; value?: number }> = {
+  declaration: {
+    name: "controlMedia",
+    description: "Control the dashboard's embedded media player and its queue. Every call returns the current player state.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        action: { type: Type.STRING, enum: MEDIA_ACTIONS, description: "What to do. 'status' only reports the player state." },
+        value: {
+          type: Type.NUMBER,
+          description: "seek: position in seconds; forward/rewind: seconds to jump; volume: level 0-100; volumeUp/volumeDown: step; skipTo: queue position starting at 1.",
+        },
+      },
+      required: ["action"],
+    },
+  },
+  label: (args) => `MEDIA: ${args.action.toUpperCase()}${args.value !== undefined ? ` ${args.value}` : ''}`,
+  validate: (args) => {
+    if (['seek', 'volume', 'skipTo'].includes(args.action) && args.value === undefined) {
+      return { message: `'${args.action}' needs a value`, field: 'value' };
+    }
+    return null;
+  },
+  handler: (args) => {
+    const { volume, position } = MediaPlayer.state();
+    const step = args.value ?? DEFAULT_STEPS[args.action] ?? 0;
+    let done = true;
+    switch (args.action) {
+      case 'play': done = MediaPlayer.play(); break;
+      case 'pause': done = MediaPlayer.pause(); break;
+      case 'stop':
+      case 'clearQueue': MediaPlayer.stop(); break;
+      case 'next': done = MediaPlayer.next(); break;
+      case 'previous': done = MediaPlayer.previous(); break;
+      case 'skipTo': done = MediaPlayer.skipTo(Math.round(step) - 1); break;
+      case 'seek': done = MediaPlayer.seek(step); break;
+      case 'forward': done = MediaPlayer.seek(position + step); break;
+      case 'rewind': done = MediaPlayer.seek(position - step); break;
+      case 'volume': MediaPlayer.setVolume(step); break;
+      case 'volumeUp': MediaPlayer.setVolume(volume + step); break;
+      case 'volumeDown': MediaPlayer.setVolume(volume - step); break;
+      case 'mute': MediaPlayer.setMuted(true); break;
+      case 'unmute': MediaPlayer.setMuted(false); break;
+      case 'status': break;
+    }
+    if (!done) {
+      const player = MediaPlayer.summary();
+      const message = player.queueLength === 0
+        ? "Nothing is loaded in the player. Use playMedia first."
+        : `Cannot ${args.action} at queue position ${player.queuePosition} of ${player.queueLength}.`;
+      return { ...toolError('EXECUTION_FAILED', message), player };
+    }
+    return { status: "Media command executed", player: MediaPlayer.summary() };
+  },
+};
+
+export const scrollPage: ToolDefinition<{ action: 'up' | 'down' | 'auto' | 'stop' }> = {
+  declaration: {
+    name: "scrollPage",
+    description: "Scroll the page content.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        action: { type: Type.STRING, enum: ["up", "down", "auto", "stop"], description: "Action: 'up', 'down', 'auto', or 'stop'." }
+      },
+      required: ["action"]
+    }
+  },
+  label: (args) => `SCROLL: ${args.action.toUpperCase()}`,
+  handler: (args, ctx) => {
+    ctx.scroll(args.action);
+    return { status: "Scrolled" };
+  },
+};
+
+export const openWebsite: ToolDefinition<{ url: string }> = {
+  declaration: {
+    name: "openWebsite",
+    description: "Open any website URL in a new tab.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        url: { type: Type.STRING, description: "The full URL to open." },
+      },
+      required: ["url"],
+    },
+  },
+  label: () => "OPENING: URL",
+  targetUrl: (args) => normalizeUrl(args.url),
+  handler: (args, ctx) => openInNewTab(normalizeUrl(args.url), ctx),
+};
+
+export const performGoogleSearch: ToolDefinition<{ query: string }> = {
+  declaration: {
+    name: "performGoogleSearch",
+    description: "Perform a Google Search.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: "The search query." }
+      },
+      required: ["query"]
+    }
+  },
+  label: (args) => `SEARCHING: ${args.query}`,
+  targetUrl: googleSearchUrl,
+  handler: (args, ctx) => openInNewTab(googleSearchUrl(args), ctx),
+};
+
+export const browserTools: ToolDefinition[] = [playMedia, controlMedia, scrollPage, openWebsite, performGoogleSearch];
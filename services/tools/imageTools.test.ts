@@ -0,0 +1,51 @@
+// @vitest-environment happy-dom
+import 'fake-indexeddb/auto';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { generateImage } from './imageTools';
+import { ToolContext } from './registry';
+import { ImageGallery } from '../imageGallery';
+
+const rendered = { data: 'iVBORw0KGgo=', mimeType: 'image/png', model: 'image-model' };
+
+function context() {
+  return {
+    notify: vi.fn(),
+    showImage: vi.fn(),
+    generateImage: vi.fn(async () => rendered),
+  } as unknown as ToolContext & { notify: ReturnType<typeof vi.fn>; generateImage: ReturnType<typeof vi.fn> };
+}
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await ImageGallery.clear();
+});
+
+describe('generateImage', () => {
+  it('reports a failed save and keeps the image available for edits', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(IDBObjectStore.prototype, 'put').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    const ctx = context();
+
+    const result = await generateImage.handler({ prompt: 'A red car' }, ctx);
+    await vi.waitFor(() => expect(ctx.notify).toHaveBeenCalled());
+
+    expect(ctx.notify).toHaveBeenCalledWith('IMAGE NOT SAVED');
+    expect((await ImageGallery.latest())?.id).toBe(result.imageId);
+
+    const edit = await generateImage.handler({ prompt: 'Make it blue', editImageId: result.imageId }, ctx);
+    expect(edit.error).toBeUndefined();
+    expect(ctx.generateImage).toHaveBeenLastCalledWith('Make it blue', expect.objectContaining({ id: result.imageId }));
+  });
+
+  it('announces a rendered image once it is stored', async () => {
+    const ctx = context();
+
+    const result = await generateImage.handler({ prompt: 'A red car' }, ctx);
+    await vi.waitFor(() => expect(ctx.notify).toHaveBeenCalled());
+
+    expect(ctx.notify).toHaveBeenCalledWith('IMAGE RENDERED');
+    expect((await ImageGallery.get(result.imageId))?.prompt).toBe('A red car');
+  });
+});
@@ -0,0 +1,53 @@
+import { Type } from "@google/genai";
+import { ToolDefinition, toolError } from "./registry";
+import { GalleryImage, ImageGallery } from "../imageGallery";
+
+export const generateImage: ToolDefinition<{ prompt: string; editImageId?: string }> = {
+  declaration: {
+    name: "generateImage",
+    description: "Generate an image, or edit a previously generated one by passing editImageId.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        prompt: { type: Type.STRING, description: "The image description, or the change to make when editing" },
+        editImageId: { type: Type.STRING, description: "imageId returned by an earlier generateImage call, or 'latest' for the most recent image" }
+      },
+      required: ["prompt"]
+    }
+  },
+  label: (args) => args.editImageId ? "EDITING IMAGE..." : "GENERATING IMAGE...",
+  handler: async (args, ctx) => {
+    let source: GalleryImage | null = null;
+    if (args.editImageId) {
+      source = args.editImageId === 'latest' ? await ImageGallery.latest() : await ImageGallery.get(args.editImageId);
+      if (!source) return toolError('INVALID_ARGUMENT', `No gallery image with id '${args.editImageId}'`, 'editImageId');
+    }
+
+    // Rendering continues in the background; the model confirms right away
+    const id = crypto.randomUUID();
+    ctx.generateImage(args.prompt, source || undefined).then(async result => {
+      if (!result) {
+        ctx.notify("ERR: IMAGE GEN FAILED");
+        return;
+      }
+      const image: GalleryImage = {
+        id,
+        prompt: args.prompt,
+        model: result.model,
+        timestamp: new Date(),
+        mimeType: result.mimeType,
+        data: result.data,
+        parentId: source?.id,
+      };
+      const saved = await ImageGallery.add(image);
+      ctx.showImage(image);
+      ctx.notify(saved ? "IMAGE RENDERED" : "IMAGE NOT SAVED");
+    });
+    return {
+      status: source ? "Editing image; the result will be displayed to the user" : "Generating image displayed to user",
+      imageId: id,
+    };
+  },
+};
+
+export const imageTools: ToolDefinition[] = [generateImage];
@@ -0,0 +1,19 @@
+import { createToolRegistry } from "./registry";
+import { systemTools } from "./systemTools";
+import { browserTools } from "./browserTools";
+import { imageTools } from "./imageTools";
+import { memoryTools } from "./memoryTools";
+import { reminderTools } from "./reminderTools";
+import { toolPolicy } from "../toolPolicy";
+
+export type { GuardDecision, ToolContext, ToolDefinition, ToolError, ToolRegistry } from "./registry";
+export { toolError, validateArgs } from "./registry";
+
+// Single source of truth for every tool the model can call
+export const toolRegistry = createToolRegistry([
+  ...systemTools,
+  ...browserTools,
+  ...imageTools,
+  ...memoryTools,
+  ...reminderTools,
+], toolPolicy);
@@ -0,0 +1,70 @@
+import { Type } from "@google/genai";
+import { ToolDefinition, toolError } from "./registry";
+import { MEMORY_CATEGORIES, MemoryCategory, MemoryStore } from "../memoryStore";
+
+const RECALL_LIMIT = 10;
+
+export const rememberFact: ToolDefinition<{ fact: string; category?: MemoryCategory }> = {
+  declaration: {
+    name: "rememberFact",
+    description: "Save a lasting fact about the user (preferences, names, recurring tasks) for future conversations.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        fact: { type: Type.STRING, description: "A short, self-contained statement, e.g. 'Prefers lo-fi music while working'." },
+        category: { type: Type.STRING, enum: MEMORY_CATEGORIES, description: "Kind of fact." },
+      },
+      required: ["fact"],
+    },
+  },
+  label: () => "MEMORY: STORED",
+  handler: async (args) => {
+    const saved = await MemoryStore.remember(args.fact, args.category);
+    return { status: "Remembered", id: saved.id };
+  },
+};
+
+export const recallFacts: ToolDefinition<{ query?: string }> = {
+  declaration: {
+    name: "recallFacts",
+    description: "Search what you remember about the user. Omit the query to list the most recent memories.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        query: { type: Type.STRING, description: "Words to match, e.g. 'music' or 'sister'." },
+      },
+    },
+  },
+  label: () => "MEMORY: RECALL",
+  handler: async (args) => {
+    const facts = await MemoryStore.list();
+    const matches = args.query ? MemoryStore.rank(facts, args.query) : facts;
+    return {
+      facts: matches.slice(0, RECALL_LIMIT).map(f => ({ id: f.id, fact: f.text, category: f.category })),
+      total: matches.length,
+    };
+  },
+};
+
+export const forgetFact: ToolDefinition<{ id: string }> = {
+  declaration: {
+    name: "forgetFact",
+    description: "Delete a remembered fact when the user asks you to forget it or it is no longer true. Use recallFacts first to find its id.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING, description: "Id of the memory to delete." },
+      },
+      required: ["id"],
+    },
+  },
+  label: () => "MEMORY: ERASED",
+  handler: async (args) => {
+    if (!(await MemoryStore.forget(args.id))) {
+      return toolError('INVALID_ARGUMENT', `No memory with id '${args.id}'`, 'id');
+    }
+    return { status: "Forgotten" };
+  },
+};
+
+export const memoryTools: ToolDefinition[] = [rememberFact, recallFacts, forgetFact];
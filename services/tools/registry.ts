@@ -0,0 +1,191 @@
+import { FunctionDeclaration, Schema, Type } from "@google/genai";
+import type { GeneratedImage, ImagePayload } from "../jarvisService";
+import type { GalleryImage } from "../imageGallery";
+
+export type ToolErrorCode = 'INVALID_ARGUMENT' | 'UNKNOWN_TOOL' | 'EXECUTION_FAILED' | 'SYSTEM_LOCKED' | 'POLICY_DENIED' | 'USER_CANCELLED';
+
+export interface ToolError {
+  error: {
+    code: ToolErrorCode;
+    message: string;
+    field?: string;
+  };
+}
+
+// UI capabilities the dashboard lends to tool handlers (implemented in App.tsx)
+export interface ToolContext {
+  isLocked: () => boolean;
+  notify: (label: string) => void;
+  openUrl: (url: string) => boolean;
+  scroll: (action: 'up' | 'down' | 'auto' | 'stop') => void;
+  // False when no passcode is set, so there is nothing to unlock with
+  lock: () => boolean;
+  generateImage: (prompt: string, reference?: ImagePayload) => Promise<GeneratedImage | null>;
+  showImage: (image: GalleryImage) => void;
+  // Resolves true once the user approves on screen or by voice
+  requestConfirmation: (request: { tool: string; summary: string }) => Promise<boolean>;
+}
+
+export type GuardDecision = 'allowed' | 'confirmed' | 'denied' | 'cancelled' | 'invalid' | 'locked' | 'unknown';
+
+export interface GuardRecord {
+  tool: string;
+  args: any;
+  decision: GuardDecision;
+  reason?: string;
+  outcome?: 'ok' | 'error';
+}
+
+// Policy layer consulted after schema validation and before any handler runs
+export interface ToolGuard {
+  authorize: (name: string, tool: ToolDefinition, args: any, ctx: ToolContext) => Promise<{ decision: GuardDecision; reason?: string }>;
+  record: (entry: GuardRecord) => void;
+}
+
+export interface ToolDefinition<A = any> {
+  declaration: FunctionDeclaration;
+  // Short HUD label announced when the tool starts
+  label?: (args: A) => string;
+  // Extra checks beyond the declaration schema; return a message to reject
+  validate?: (args: A) => { message: string; field?: string } | null;
+  // URL the tool will open, so the policy can vet scheme and host up front
+  targetUrl?: (args: A) => string;
+  handler: (args: A, ctx: ToolContext) => Promise<any> | any;
+}
+
+export function toolError(code: ToolErrorCode, message: string, field?: string): ToolError {
+  return { error: field ? { code, message, field } : { code, message } };
+}
+
+function checkValue(schema: Schema, value: unknown, field: string): ToolError | null {
+  switch (schema.type) {
+    case Type.STRING:
+      if (typeof value !== 'string') return toolError('INVALID_ARGUMENT', `'${field}' must be a string`, field);
+      if (schema.enum && !schema.enum.includes(value)) {
+        return toolError('INVALID_ARGUMENT', `'${field}' must be one of: ${schema.enum.join(', ')}`, field);
+      }
+      return null;
+    case Type.NUMBER:
+    case Type.INTEGER:
+      if (typeof value !== 'number' || Number.isNaN(value)) return toolError('INVALID_ARGUMENT', `'${field}' must be a number`, field);
+      if (schema.type === Type.INTEGER && !Number.isInteger(value)) return toolError('INVALID_ARGUMENT', `'${field}' must be an integer`, field);
+      if (schema.minimum !== undefined && value < schema.minimum) return toolError('INVALID_ARGUMENT', `'${field}' must be >= ${schema.minimum}`, field);
+      if (schema.maximum !== undefined && value > schema.maximum) return toolError('INVALID_ARGUMENT', `'${field}' must be <= ${schema.maximum}`, field);
+      return null;
+    case Type.BOOLEAN:
+      return typeof value === 'boolean' ? null : toolError('INVALID_ARGUMENT', `'${field}' must be a boolean`, field);
+    case Type.ARRAY:
+      if (!Array.isArray(value)) return toolError('INVALID_ARGUMENT', `'${field}' must be an array`, field);
+      if (schema.items) {
+        for (let i = 0; i < value.length; i++) {
+          const err = checkValue(schema.items, value[i], `${field}[${i}]`);
+          if (err) return err;
+        }
+      }
+      return null;
+    default:
+      return null;
+  }
+}
+
+// Validates model-produced arguments against the tool's declared schema
+export function validateArgs(declaration: FunctionDeclaration, args: any): ToolError | null {
+  const params = declaration.parameters;
+  if (!params) return null;
+  if (args === null || typeof args !== 'object' || Array.isArray(args)) {
+    return toolError('INVALID_ARGUMENT', 'Arguments must be an object');
+  }
+  for (const field of params.required || []) {
+    const value = args[field];
+    if (value === undefined || value === null || (typeof value === 'string' && !value.trim())) {
+      return toolError('INVALID_ARGUMENT', `Missing required parameter '${field}'`, field);
+    }
+  }
+  for (const [field, schema] of Object.entries(params.properties || {})) {
+    if (args[field] === undefined || args[field] === null) continue;
+    const err = checkValue(schema, args[field], field);
+    if (err) return err;
+  }
+  return null;
+}
+
+const isErrorResult = (result: any) => !!(result && typeof result === 'object' && 'error' in result);
+
+export function createToolRegistry(definitions: ToolDefinition[], guard?: ToolGuard) {
+  const byName = new Map<string, ToolDefinition>();
+  for (const def of definitions) {
+    if (!def.declaration.name) throw new Error("Tool declaration is missing a name");
+    if (byName.has(def.declaration.name)) throw new Error(`Duplicate tool: ${def.declaration.name}`);
+    byName.set(def.declaration.name, def);
+  }
+
+  return {
+    declarations(): FunctionDeclaration[] {
+      return definitions.map(d => d.declaration);
+    },
+
+    get(name: string): ToolDefinition | undefined {
+      return byName.get(name);
+    },
+
+    async execute(name: string, args: any, ctx: ToolContext): Promise<any> {
+      const input = args ?? {};
+      const record = (decision: GuardDecision, reason?: string, outcome?: GuardRecord['outcome']) =>
+        guard?.record({ tool: name, args: input, decision, reason, outcome });
+
+      // Nothing runs behind the lock screen, not even another lock
+      if (ctx.isLocked()) {
+        record('locked');
+        return toolError('SYSTEM_LOCKED', "System is locked. Tell the user to unlock the dashboard before anything else can run.");
+      }
+
+      const tool = byName.get(name);
+      if (!tool) {
+        record('unknown');
+        return toolError('UNKNOWN_TOOL', `No tool named '${name}'`);
+      }
+
+      const invalid = validateArgs(tool.declaration, input);
+      if (invalid) {
+        ctx.notify("CMD ERR: INVALID PARAMS");
+        record('invalid', invalid.error.message);
+        return invalid;
+      }
+      const rejected = tool.validate?.(input);
+      if (rejected) {
+        ctx.notify("CMD ERR: INVALID PARAMS");
+        record('invalid', rejected.message);
+        return toolError('INVALID_ARGUMENT', rejected.message, rejected.field);
+      }
+
+      let decision: GuardDecision = 'allowed';
+      if (guard) {
+        const verdict = await guard.authorize(name, tool, input, ctx);
+        decision = verdict.decision;
+        if (decision === 'denied') {
+          ctx.notify("BLOCKED BY POLICY");
+          record(decision, verdict.reason);
+          return toolError('POLICY_DENIED', verdict.reason || "Blocked by the tool safety policy.");
+        }
+        if (decision === 'cancelled') {
+          ctx.notify("CANCELLED");
+          record(decision, verdict.reason);
+          return toolError('USER_CANCELLED', "The user declined this action.");
+        }
+      }
+
+      if (tool.label) ctx.notify(tool.label(input));
+      try {
+        const result = await tool.handler(input, ctx);
+        record(decision, undefined, isErrorResult(result) ? 'error' : 'ok');
+        return result;
+      } catch (err) {
+        console.error(`Tool Execution Failed: ${name}`, err);
+        record(decision, String(err), 'error');
+        return toolError('EXECUTION_FAILED', String(err));
+      }
+    }
+  };
+}
+
+export type ToolRegistry = ReturnType<typeof createToolRegistry>;
@@ -0,0 +1,118 @@
+import { Type } from "@google/genai";
+import { ToolDefinition, toolError } from "./registry";
+import { Reminder, Scheduler, notificationPermission } from "../scheduler";
+
+const MAX_DELAY_MS = 365 * 24 * 3600 * 1000;
+
+// "HH:MM" is the next occurrence of that wall-clock time; anything else goes through Date parsing
+export function parseDueTime(at: string, now = new Date()): Date | null {
+  const clock = at.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    if (Number(clock[1]) > 23 || Number(clock[2]) > 59) return null;
+    const due = new Date(now);
+    due.setHours(Number(clock[1]), Number(clock[2]), 0, 0);
+    if (due.getTime() <= now.getTime()) due.setDate(due.getDate() + 1);
+    return due;
+  }
+  const parsed = new Date(at);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+const describe = (r: Reminder) => ({
+  id: r.id,
+  kind: r.kind,
+  message: r.message,
+  dueAt: r.dueAt.toLocaleString(),
+  remainingSeconds: Math.max(0, Math.round((r.dueAt.getTime() - Date.now()) / 1000)),
+});
+
+// Alerts always chime and show on the dashboard; desktop popups need a permission only the user can grant
+function notificationStatus() {
+  const permission = notificationPermission();
+  if (permission === 'granted') return {};
+  const reason = permission === 'denied' ? "blocked in the browser" : permission === 'unsupported' ? "not supported by this browser" : "not enabled yet";
+  return {
+    desktopNotifications: `Desktop notifications are ${reason}, so the alert will only show while JARVIS is open.${permission === 'default' ? " The user can enable them from the timers panel." : ''}`,
+  };
+}
+
+export const setTimer: ToolDefinition<{ durationSeconds: number; label?: string }> = {
+  declaration: {
+    name: "setTimer",
+    description: "Start a countdown timer that rings when it finishes.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        durationSeconds: { type: Type.INTEGER, minimum: 1, maximum: 7 * 24 * 3600, description: "Timer length in seconds (e.g. 20 minutes = 1200)." },
+        label: { type: Type.STRING, description: "What the timer is for, e.g. 'Tea'." },
+      },
+      required: ["durationSeconds"],
+    },
+  },
+  label: (args) => `TIMER: ${Math.ceil(args.durationSeconds / 60)} MIN`,
+  handler: async (args) => {
+    const timer = await Scheduler.schedule('timer', args.label?.trim() || "Timer finished", new Date(Date.now() + args.durationSeconds * 1000));
+    return { status: "Timer started", ...describe(timer), ...notificationStatus() };
+  },
+};
+
+export const setReminder: ToolDefinition<{ message: string; inMinutes?: number; at?: string }> = {
+  declaration: {
+    name: "setReminder",
+    description: "Remind the user about something later. Give either inMinutes or at.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        message: { type: Type.STRING, description: "What to remind the user about, e.g. 'Check the build'." },
+        inMinutes: { type: Type.NUMBER, minimum: 0, description: "Minutes from now." },
+        at: { type: Type.STRING, description: "Local time 'HH:MM' (24h, next occurrence) or an ISO 8601 date-time." },
+      },
+      required: ["message"],
+    },
+  },
+  validate: (args) => {
+    if ((args.inMinutes === undefined) === (args.at === undefined)) return { message: "Provide exactly one of 'inMinutes' or 'at'" };
+    if (args.at !== undefined && !parseDueTime(args.at)) return { message: `Could not understand the time '${args.at}'`, field: 'at' };
+    return null;
+  },
+  label: (args) => `REMINDER: ${args.message}`,
+  handler: async (args) => {
+    const dueAt = args.at !== undefined ? parseDueTime(args.at) : new Date(Date.now() + args.inMinutes * 60000);
+    const delay = dueAt.getTime() - Date.now();
+    if (delay < 0) return toolError('INVALID_ARGUMENT', "That time has already passed", 'at');
+    if (delay > MAX_DELAY_MS) return toolError('INVALID_ARGUMENT', "Reminders can be at most a year ahead", 'at');
+    const reminder = await Scheduler.schedule('reminder', args.message.trim(), dueAt);
+    return { status: "Reminder set", ...describe(reminder), ...notificationStatus() };
+  },
+};
+
+export const listReminders: ToolDefinition = {
+  declaration: {
+    name: "listReminders",
+    description: "List pending timers and reminders, soonest first.",
+  },
+  handler: () => ({ items: Scheduler.list().map(describe) }),
+};
+
+export const cancelReminder: ToolDefinition<{ id: string }> = {
+  declaration: {
+    name: "cancelReminder",
+    description: "Cancel a pending timer or reminder. Use listReminders first to find its id.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        id: { type: Type.STRING, description: "Id of the timer or reminder." },
+      },
+      required: ["id"],
+    },
+  },
+  label: () => "REMINDER CANCELLED",
+  handler: async (args) => {
+    if (!(await Scheduler.cancel(args.id))) {
+      return toolError('INVALID_ARGUMENT', `No pending timer or reminder with id '${args.id}'`, 'id');
+    }
+    return { status: "Cancelled" };
+  },
+};
+
+export const reminderTools: ToolDefinition[] = [setTimer, setReminder, listReminders, cancelReminder];
@@ -0,0 +1,52 @@
+import { Type } from "@google/genai";
+import { ToolDefinition, toolError } from "./registry";
+import { Diagnostics } from "../diagnostics";
+
+export const getCurrentTime: ToolDefinition = {
+  declaration: {
+    name: "getCurrentTime",
+    description: "Get the current local system date and time.",
+  },
+  handler: () => {
+    const now = new Date();
+    return {
+      time: now.toLocaleTimeString(),
+      date: now.toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' }),
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    };
+  },
+};
+
+export const getSystemStatus: ToolDefinition<{ runProbes?: boolean }> = {
+  declaration: {
+    name: "getSystemStatus",
+    description: "Get real system diagnostics: network, microphone permission and devices, speaker selection, audio engine sample rates and latency, the last mic-to-speaker loopback measurement, and API key / model reachability probe results.",
+    parameters: {
+      type: Type.OBJECT,
+      properties: {
+        runProbes: { type: Type.BOOLEAN, description: "Re-check the API key and every configured model first (takes a few seconds). Otherwise the last probe results are reported, and status stays 'unverified' if none have run." },
+      },
+    },
+  },
+  label: (args) => args.runProbes ? "DIAGNOSTICS: PROBING" : "DIAGNOSTICS",
+  handler: async (args) => {
+    if (args.runProbes) await Diagnostics.probeBackend();
+    return Diagnostics.status();
+  },
+};
+
+export const lockSystem: ToolDefinition = {
+  declaration: {
+    name: "lockSystem",
+    description: "Lock the system.",
+  },
+  label: () => "SYSTEM LOCKED",
+  handler: (_args, ctx) => {
+    if (!ctx.lock()) {
+      return toolError('EXECUTION_FAILED', "No passcode is set. The user has been sent to Settings to choose one before locking.");
+    }
+    return { status: "System locked" };
+  },
+};
+
+export const systemTools: ToolDefinition[] = [getCurrentTime, getSystemStatus, lockSystem];
@@ -0,0 +1,67 @@
+// Video frame capture for Gemini Live API (camera and screen share)
+
+// Region of the frame to keep, as fractions (0-1) of the source size
+export interface FrameCrop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameCaptureOptions {
+  fps: number;
+  maxWidth: number;
+  quality?: number;
+  crop?: FrameCrop | null;
+  // Don't resend a frame identical to the previous one (static screens)
+  skipUnchanged?: boolean;
+}
+
+export function captureJpegFrame(
+  video: HTMLVideoElement,
+  canvas: HTMLCanvasElement,
+  maxWidth: number,
+  quality: number = 0.7,
+  crop?: FrameCrop | null
+): string | null {
+  if (!video.videoWidth || !video.videoHeight) return null;
+  const sx = Math.round((crop?.x ?? 0) * video.videoWidth);
+  const sy = Math.round((crop?.y ?? 0) * video.videoHeight);
+  const sw = Math.max(1, Math.round((crop?.width ?? 1) * video.videoWidth));
+  const sh = Math.max(1, Math.round((crop?.height ?? 1) * video.videoHeight));
+  const scale = Math.min(1, maxWidth / sw);
+  canvas.width = Math.round(sw * scale);
+  canvas.height = Math.round(sh * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  // Strip the "data:image/jpeg;base64," prefix
+  return canvas.toDataURL('image/jpeg', quality).split(',')[1] || null;
+}
+
+export function startFrameStream(
+  video: HTMLVideoElement,
+  options: FrameCaptureOptions,
+  onFrame: (base64Jpeg: string) => void
+): () => void {
+  const canvas = document.createElement('canvas');
+  let previous: string | null = null;
+  const interval = window.setInterval(() => {
+    const frame = captureJpegFrame(video, canvas, options.maxWidth, options.quality, options.crop);
+    if (!frame || (options.skipUnchanged && frame === previous)) return;
+    previous = frame;
+    onFrame(frame);
+  }, 1000 / Math.max(0.1, options.fps));
+  return () => window.clearInterval(interval);
+}
+
+// Opens the browser's share picker; call it straight from a click so it has user activation
+export function requestScreenStream(): Promise<MediaStream> {
+  return navigator.mediaDevices.getDisplayMedia({
+    video: { frameRate: 5 },
+    audio: false,
+    // Sharing the dashboard itself would only show JARVIS its own HUD
+    selfBrowserSurface: 'exclude',
+    surfaceSwitching: 'include',
+  } as DisplayMediaStreamOptions);
+}
@@ -2,20 +2,47 @@ export enum AppMode {
   NORMAL = 'NORMAL',
   LIVE = 'LIVE',
   VISION = 'VISION',
+  SCREEN = 'SCREEN',
+  INTERPRET = 'INTERPRET',
   THINK = 'THINK',
 }
 
+export interface ToolCallRecord {
+  name: string;
+  args: any;
+  result: any;
+}
+
+// File shared with JARVIS; stored inline so it survives with the conversation
+export interface Attachment {
+  id: string;
+  name: string;
+  mimeType: string;
+  size: number;
+  // Base64 file bytes
+  data: string;
+  // Decoded text for text files, or text extracted from a PDF for the live session
+  text?: string;
+}
+
 export interface Message {
+  id: string;
   role: 'user' | 'model' | 'system';
   content: string;
   timestamp: Date;
   isThinking?: boolean;
   groundingUrls?: Array<{ title: string; uri: string }>;
+  toolCall?: ToolCallRecord;
+  attachments?: Attachment[];
 }
 
+export type VisualizerStyle = 'waveform' | 'spectrum' | 'arc';
+
 export interface AudioVisualizerProps {
-  stream?: MediaStream;
-  isActive: boolean;
+  mode: 'idle' | 'listening' | 'speaking';
+  style: VisualizerStyle;
+  inputAnalyser?: AnalyserNode | null;
+  outputAnalyser?: AnalyserNode | null;
 }
 
 export interface ProcessingState {
@@ -26,7 +53,7 @@ export interface ProcessingState {
 // Minimal type for grounding chunks based on Gemini API
 export interface GroundingChunk {
   web?: {
-    uri: string;
-    title: string;
+    uri?: string;
+    title?: string;
   };
 }